@@ -0,0 +1,171 @@
+import MockAdapter from 'axios-mock-adapter'
+import { Readable } from 'stream'
+import { createTypedApi, encodeRequestBody, OpenAPIRequestBody, OpenAPISpec, selectRequestContentType } from '../src'
+
+const spec: OpenAPISpec = { openapi: '3.0.3', info: { title: 'Uploads', version: '1' }, paths: {} }
+
+const uploadBody: OpenAPIRequestBody = {
+    content: {
+        'application/json': {},
+        'multipart/form-data': {
+            encoding: {
+                metadata: { contentType: 'application/json' },
+                avatar: {
+                    contentType: 'image/png',
+                    headers: { 'X-Rate-Limit': { schema: { type: 'integer', default: 10 } } },
+                },
+            },
+        },
+        'application/octet-stream': {},
+    },
+}
+
+describe('selectRequestContentType', () => {
+    it('should pick the first declared type that fits the data', () => {
+        expect(selectRequestContentType(uploadBody, { name: 'a' })).toBe('application/json')
+        expect(selectRequestContentType(uploadBody, Buffer.from('abc'))).toBe('multipart/form-data')
+        expect(selectRequestContentType(uploadBody, new FormData())).toBe('multipart/form-data')
+        expect(selectRequestContentType({ content: { 'application/json': {}, 'image/png': {} } }, new Blob())).toBe(
+            'image/png',
+        )
+    })
+
+    it('should return undefined without a request body', () => {
+        expect(selectRequestContentType(undefined, { name: 'a' })).toBeUndefined()
+    })
+})
+
+describe('encodeRequestBody', () => {
+    it('should encode multipart parts following the encoding of each property', async () => {
+        const body = await encodeRequestBody(
+            spec,
+            uploadBody,
+            {
+                name: 'Alex',
+                tags: ['a', 'b'],
+                metadata: { size: 3 },
+                avatar: new File(['png'], 'me.png'),
+            },
+            'multipart/form-data',
+        )
+
+        expect(body.contentType).toMatch(/^multipart\/form-data; boundary=/)
+        const boundary = body.contentType!.split('boundary=')[1]
+        const text = await (body.data as Blob).text()
+        const parts = text.split(`--${boundary}`)
+
+        expect(parts).toHaveLength(7)
+        expect(parts[1]).toBe('\r\nContent-Disposition: form-data; name="name"\r\n\r\nAlex\r\n')
+        expect(parts[2]).toContain('name="tags"\r\n\r\na')
+        expect(parts[3]).toContain('name="tags"\r\n\r\nb')
+        expect(parts[4]).toContain('Content-Type: application/json\r\n\r\n{"size":3}')
+        expect(parts[5]).toContain('name="avatar"; filename="me.png"\r\nContent-Type: image/png\r\nX-Rate-Limit: 10')
+        expect(parts[5]).toContain('\r\n\r\npng\r\n')
+        expect(parts[6]).toBe('--\r\n')
+    })
+
+    it('should read streams into multipart parts', async () => {
+        const stream = Object.assign(Readable.from([Buffer.from('hello '), Buffer.from('world')]), {
+            path: '/tmp/notes.txt',
+        })
+        const body = await encodeRequestBody(spec, uploadBody, { file: stream }, 'multipart/form-data')
+        const text = await (body.data as Blob).text()
+
+        expect(text).toContain('name="file"; filename="notes.txt"\r\nContent-Type: application/octet-stream')
+        expect(text).toContain('\r\n\r\nhello world\r\n')
+    })
+
+    it('should encode urlencoded bodies with the encoding styles', async () => {
+        const requestBody: OpenAPIRequestBody = {
+            content: {
+                'application/x-www-form-urlencoded': {
+                    encoding: { ids: { explode: false }, filter: { style: 'deepObject', explode: true } },
+                },
+            },
+        }
+        const body = await encodeRequestBody(spec, requestBody, {
+            name: 'Alex Doe',
+            ids: [1, 2],
+            filter: { role: 'admin' },
+        })
+
+        expect(body).toEqual({
+            data: 'name=Alex%20Doe&ids=1,2&filter[role]=admin',
+            contentType: 'application/x-www-form-urlencoded',
+        })
+    })
+
+    it('should pass binary and JSON bodies through', async () => {
+        const buffer = Buffer.from('abc')
+        expect(await encodeRequestBody(spec, uploadBody, buffer, 'application/octet-stream')).toEqual({
+            data: buffer,
+            contentType: 'application/octet-stream',
+        })
+        expect(await encodeRequestBody(spec, uploadBody, { a: 1 })).toEqual({
+            data: { a: 1 },
+            contentType: 'application/json',
+        })
+        expect(await encodeRequestBody(spec, undefined, { a: 1 })).toEqual({ data: { a: 1 } })
+    })
+})
+
+describe('request bodies in generated methods', () => {
+    const uploadSpec: OpenAPISpec = {
+        ...spec,
+        paths: {
+            '/login': {
+                post: {
+                    operationId: 'login',
+                    requestBody: { content: { 'application/x-www-form-urlencoded': {} } },
+                    responses: {},
+                },
+            },
+            '/avatar': {
+                put: { operationId: 'uploadAvatar', requestBody: uploadBody, responses: {} },
+            },
+        },
+    }
+
+    it('should encode the body for the declared content type', async () => {
+        const api = createTypedApi<any, any>(uploadSpec, { url: 'http://localhost' })
+        const mock = new MockAdapter(api as any)
+        mock.onPost('/login').reply((config) => [200, { data: config.data, type: config.headers?.['Content-Type'] }])
+
+        const res = await api.login({}, { username: 'alex', password: 'a&b' })
+
+        expect(res.data).toEqual({
+            data: 'username=alex&password=a%26b',
+            type: 'application/x-www-form-urlencoded',
+        })
+    })
+
+    it('should respect an explicit Content-Type header', async () => {
+        const api = createTypedApi<any, any>(uploadSpec, { url: 'http://localhost' })
+        const mock = new MockAdapter(api as any)
+        mock.onPut('/avatar').reply((config) => [200, { isBlob: config.data instanceof Blob }])
+
+        const json = await api.uploadAvatar({}, { name: 'a' })
+        const multipart = await api.uploadAvatar(
+            {},
+            { name: 'a' },
+            { headers: { 'content-type': 'multipart/form-data' } },
+        )
+
+        expect(json.data.isBlob).toBe(false)
+        expect(multipart.data.isBlob).toBe(true)
+    })
+
+    it('should report upload progress with the operationId', async () => {
+        const onUploadProgress = jest.fn()
+        const api = createTypedApi<any, any>(uploadSpec, { url: 'http://localhost', onUploadProgress })
+        const mock = new MockAdapter(api as any)
+        mock.onPut('/avatar').reply((config): [number, any] => {
+            config.onUploadProgress?.({ loaded: 3, total: 3, bytes: 3, lengthComputable: true })
+            return [200, {}]
+        })
+
+        await api.uploadAvatar({}, Buffer.from('abc'))
+
+        expect(onUploadProgress).toHaveBeenCalledWith(expect.objectContaining({ loaded: 3 }), 'uploadAvatar')
+    })
+})
@@ -0,0 +1,132 @@
+import MockAdapter from 'axios-mock-adapter'
+import {
+    CircuitStateChange,
+    createApi,
+    createTypedApi,
+    ERR_CIRCUIT_OPEN,
+    getCircuitBreaker,
+    OpenAPISpec,
+    PROBLEM_CODE,
+} from '../src'
+
+const spec: OpenAPISpec = {
+    openapi: '3.0.3',
+    info: { title: 'Users', version: '1' },
+    paths: {
+        '/users': { get: { operationId: 'listUsers', responses: {} } },
+        '/users/search': { get: { operationId: 'searchUsers', responses: {} } },
+        '/users/1': { get: { operationId: 'getUser', responses: {} } },
+        '/status': { get: { operationId: 'getStatus', responses: {} } },
+    },
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+describe('circuit breaker', () => {
+    it('should open after failures and fail fast', async () => {
+        const api = createApi({
+            url: 'http://localhost',
+            circuitBreaker: { minimumCalls: 4, failureThreshold: 0.5 },
+        })
+        const mock = new MockAdapter(api as any)
+        mock.onGet('/ok').reply(200).onGet('/down').reply(503).onGet('/missing').reply(404)
+
+        await api.get('/ok')
+        await api.get('/missing')
+        await api.get('/down')
+        expect(getCircuitBreaker(api)?.get('localhost')).toMatchObject({
+            state: 'closed',
+            calls: 3,
+            failures: 1,
+        })
+        await api.get('/down')
+
+        const response = await api.get('/ok')
+        expect(response).toMatchObject({ ok: false, problem: PROBLEM_CODE.CIRCUIT_OPEN, status: undefined })
+        expect(response.originalError?.message).toBe('Circuit for localhost is open')
+        expect(mock.history.get).toHaveLength(4)
+    })
+
+    it('should let a trial call through once open duration has passed', async () => {
+        const changes: CircuitStateChange[] = []
+        const api = createApi({
+            url: 'http://localhost',
+            circuitBreaker: { minimumCalls: 1, openDuration: 20, onStateChange: (change) => changes.push(change) },
+        })
+        const mock = new MockAdapter(api as any)
+        mock.onGet('/users').networkErrorOnce().onGet('/users').timeoutOnce().onGet('/users').reply(200)
+
+        await api.get('/users')
+        await sleep(25)
+        expect((await api.get('/users')).problem).toBe(PROBLEM_CODE.TIMEOUT_ERROR)
+        expect((await api.get('/users')).problem).toBe(PROBLEM_CODE.CIRCUIT_OPEN)
+        await sleep(25)
+        expect((await api.get('/users')).ok).toBe(true)
+
+        expect(changes.map(({ from, to }) => `${from} > ${to}`)).toEqual([
+            'closed > open',
+            'open > halfOpen',
+            'halfOpen > open',
+            'open > halfOpen',
+            'halfOpen > closed',
+        ])
+        expect(changes[0]).toMatchObject({ key: 'localhost', host: 'localhost', operationId: undefined })
+        expect(mock.history.get).toHaveLength(3)
+    })
+
+    it('should keep a circuit per operation and honour overrides', async () => {
+        const api = createTypedApi<any, any>(spec, {
+            url: 'http://localhost',
+            circuitBreaker: {
+                scope: 'operation',
+                minimumCalls: 1,
+                operations: { getStatus: false, listUsers: { statusCodes: [429] } },
+            },
+        })
+        const mock = new MockAdapter(api as any)
+        mock.onGet('/users/1').reply(500).onGet('/users').reply(500).onGet('/status').reply(500)
+
+        await api.getUser()
+        await api.listUsers()
+        await api.getStatus()
+
+        expect((await api.getUser()).problem).toBe(PROBLEM_CODE.CIRCUIT_OPEN)
+        expect((await api.listUsers()).problem).toBe(PROBLEM_CODE.SERVER_ERROR)
+        expect((await api.getStatus()).problem).toBe(PROBLEM_CODE.SERVER_ERROR)
+        expect(getCircuitBreaker(api)?.list()).toMatchObject([
+            { key: 'localhost getUser', operationId: 'getUser', state: 'open' },
+            { key: 'localhost listUsers', operationId: 'listUsers', state: 'closed', calls: 2, failures: 0 },
+        ])
+    })
+
+    it('should reset circuits', async () => {
+        const api = createTypedApi<any, any>(spec, {
+            url: 'http://localhost',
+            circuitBreaker: { scope: 'operation', minimumCalls: 1 },
+        })
+        new MockAdapter(api as any).onGet(/\/users/).reply(500)
+        const breaker = getCircuitBreaker(api)!
+
+        await api.listUsers()
+        await api.searchUsers()
+        breaker.reset({ operationId: 'listUsers' })
+        expect(breaker.list().map(({ state }) => state)).toEqual(['closed', 'open'])
+        breaker.reset()
+        expect(breaker.list().map(({ state }) => state)).toEqual(['closed', 'closed'])
+        expect((await api.searchUsers()).problem).toBe(PROBLEM_CODE.SERVER_ERROR)
+    })
+
+    it('should fail like an open circuit when mocked', async () => {
+        const api = createTypedApi<any, any>(spec, {
+            url: 'http://localhost',
+            mock: { operations: { getUser: { problem: PROBLEM_CODE.CIRCUIT_OPEN } } },
+        })
+
+        const response = await api.getUser()
+        expect(response).toMatchObject({ ok: false, problem: PROBLEM_CODE.CIRCUIT_OPEN })
+        expect(response.originalError).toMatchObject({
+            code: ERR_CIRCUIT_OPEN,
+            message: 'Circuit for localhost is open',
+        })
+    })
+})
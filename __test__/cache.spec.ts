@@ -0,0 +1,177 @@
+import MockAdapter from 'axios-mock-adapter'
+import { createApi, createTypedApi, invalidateCache, MemoryCacheStorage, OpenAPISpec } from '../src'
+
+const spec: OpenAPISpec = {
+    openapi: '3.0.3',
+    info: { title: 'Users', version: '1' },
+    paths: {
+        '/users': {
+            get: { operationId: 'listUsers', responses: {} },
+            post: { operationId: 'createUser', responses: {} },
+        },
+        '/users/{id}': { get: { operationId: 'getUser', responses: {} } },
+        '/config': { get: { operationId: 'getConfig', responses: {} } },
+    },
+}
+
+describe('MemoryCacheStorage', () => {
+    it('should evict the least recently used entry', () => {
+        const storage = new MemoryCacheStorage(2)
+        const entry = {
+            url: '',
+            path: '',
+            status: 200,
+            statusText: '',
+            headers: {},
+            data: 1,
+            storedAt: 0,
+            expiresAt: 0,
+        }
+        storage.set('a', entry)
+        storage.set('b', entry)
+        storage.get('a')
+        storage.set('c', entry)
+        expect([...storage.keys()]).toEqual(['a', 'c'])
+    })
+})
+
+describe('response cache', () => {
+    it('should serve fresh responses from the cache according to max-age', async () => {
+        const api = createApi({ url: 'http://localhost', cache: true })
+        const mock = new MockAdapter(api as any)
+        mock.onGet('/users').reply(200, [{ id: 1 }], { 'cache-control': 'max-age=60' })
+
+        const first = await api.get('/users', { params: { b: 2, a: 1 } })
+        const second = await api.get('/users', { params: { a: 1, b: 2 } })
+        await api.get('/users', { params: { a: 2 } })
+
+        expect(second.ok).toBe(true)
+        expect(second.data).toEqual(first.data)
+        expect(second.data).not.toBe(first.data)
+        expect(mock.history.get).toHaveLength(2)
+    })
+
+    it('should not store no-store responses or bypass the cache for no-store requests', async () => {
+        const api = createApi({ url: 'http://localhost', cache: { ttl: 60000 } })
+        const mock = new MockAdapter(api as any)
+        mock.onGet('/secret').reply(200, {}, { 'cache-control': 'no-store' })
+        mock.onGet('/users').reply(200, [])
+
+        await api.get('/secret')
+        await api.get('/secret')
+        await api.get('/users')
+        await api.get('/users', { headers: { 'Cache-Control': 'no-store' } })
+
+        expect(mock.history.get).toHaveLength(4)
+    })
+
+    it('should revalidate stale responses and turn 304 into a cached response', async () => {
+        const api = createApi({ url: 'http://localhost', cache: true })
+        const mock = new MockAdapter(api as any)
+        mock.onGet('/users')
+            .replyOnce(200, [{ id: 1 }], { etag: '"v1"', 'last-modified': 'Mon, 01 Jan 2024 00:00:00 GMT' })
+            .onGet('/users')
+            .replyOnce(304, undefined)
+
+        await api.get('/users')
+        const revalidated = await api.get('/users')
+
+        expect(revalidated.ok).toBe(true)
+        expect(revalidated.status).toBe(200)
+        expect(revalidated.data).toEqual([{ id: 1 }])
+        expect(mock.history.get[1].headers?.['If-None-Match']).toBe('"v1"')
+        expect(mock.history.get[1].headers?.['If-Modified-Since']).toBe('Mon, 01 Jan 2024 00:00:00 GMT')
+    })
+
+    it('should key responses on the headers named by Vary', async () => {
+        const api = createApi({ url: 'http://localhost', cache: { ttl: 60000 } })
+        const mock = new MockAdapter(api as any)
+        mock.onGet('/users').reply((config) => [200, config.headers?.['Accept-Language'], { vary: 'Accept-Language' }])
+
+        await api.get('/users', { headers: { 'Accept-Language': 'en' } })
+        const german = await api.get('/users', { headers: { 'Accept-Language': 'de' } })
+        const english = await api.get('/users', { headers: { 'Accept-Language': 'en' } })
+        await api.get('/users', { headers: { 'Accept-Language': 'de' } })
+
+        expect(german.data).toBe('de')
+        expect(english.data).toBe('en')
+        expect(mock.history.get).toHaveLength(2)
+    })
+
+    it('should not store private responses', async () => {
+        const api = createApi({ url: 'http://localhost', cache: { ttl: 60000 } })
+        const mock = new MockAdapter(api as any)
+        mock.onGet('/me').reply(200, {}, { 'cache-control': 'private, max-age=60' })
+
+        await api.get('/me')
+        await api.get('/me')
+
+        expect(mock.history.get).toHaveLength(2)
+    })
+
+    it('should not cache responses of operations with security requirements', async () => {
+        const tokens = ['alice', 'bob']
+        const api = createTypedApi<any, any>(
+            {
+                ...spec,
+                security: [{ bearer: [] }],
+                components: { securitySchemes: { bearer: { type: 'http', scheme: 'bearer' } } },
+            },
+            { url: 'http://localhost', cache: { ttl: 60000 }, credentials: { bearer: () => tokens.shift() } },
+        )
+        const mock = new MockAdapter(api as any)
+        mock.onGet('/users').reply((config) => [200, { user: config.headers?.Authorization }])
+
+        expect((await api.listUsers()).data).toEqual({ user: 'Bearer alice' })
+        expect((await api.listUsers()).data).toEqual({ user: 'Bearer bob' })
+        expect(mock.history.get).toHaveLength(2)
+    })
+
+    it('should not store responses that vary on everything', async () => {
+        const api = createApi({ url: 'http://localhost', cache: { ttl: 60000 } })
+        const mock = new MockAdapter(api as any)
+        mock.onGet('/users').reply(200, [], { vary: '*' })
+
+        await api.get('/users')
+        await api.get('/users')
+
+        expect(mock.history.get).toHaveLength(2)
+    })
+
+    it('should apply per-operation TTLs and invalidate on mutations and by operationId', async () => {
+        const api = createTypedApi<any, any>(spec, {
+            url: 'http://localhost',
+            cache: { ttl: 60000, operations: { getConfig: { ttl: 0 } } },
+        })
+        const mock = new MockAdapter(api as any)
+        mock.onGet('/users').reply(200, [])
+        mock.onGet('/users/1').reply(200, { id: 1 })
+        mock.onGet('/config').reply(200, {})
+        mock.onPost('/users').reply(201, {})
+        mock.onOptions('/users').reply(204)
+
+        await api.getConfig()
+        await api.getConfig()
+        expect(mock.history.get).toHaveLength(2)
+
+        await api.listUsers()
+        await api.getUser(1)
+        await api.listUsers()
+        await api.getUser(1)
+        expect(mock.history.get).toHaveLength(4)
+
+        await api.createUser({}, {})
+        await api.listUsers()
+        await api.getUser(1)
+        expect(mock.history.get).toHaveLength(6)
+
+        await api.options('/users')
+        await api.listUsers()
+        expect(mock.history.get).toHaveLength(6)
+
+        await invalidateCache(api, { operationId: 'getUser' })
+        await api.listUsers()
+        await api.getUser(1)
+        expect(mock.history.get).toHaveLength(7)
+    })
+})
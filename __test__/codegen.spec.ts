@@ -0,0 +1,179 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import * as ts from 'typescript'
+import * as zod from 'zod'
+import { createTypedApi, generateClient, OpenAPISpec } from '../src'
+import { runCli } from '../src/cli'
+
+const spec: OpenAPISpec = {
+    openapi: '3.0.3',
+    info: { title: 'Pets', version: '1' },
+    paths: {
+        '/pets': {
+            get: {
+                operationId: 'listPets',
+                summary: 'Lists pets',
+                deprecated: true,
+                parameters: [
+                    { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1 } },
+                    { name: 'offset', in: 'query', deprecated: true, schema: { type: 'integer' } },
+                ],
+                responses: {
+                    '200': {
+                        description: 'Pets',
+                        content: {
+                            'application/json': {
+                                schema: { type: 'array', items: { $ref: '#/components/schemas/Pet' } },
+                            },
+                        },
+                    },
+                },
+            },
+            post: {
+                operationId: 'create-pet',
+                requestBody: {
+                    required: true,
+                    content: { 'application/json': { schema: { $ref: '#/components/schemas/NewPet' } } },
+                },
+                responses: {},
+            },
+        },
+        '/pets/{petId}': {
+            get: {
+                parameters: [{ name: 'petId', in: 'path', required: true, schema: { type: 'string' } }],
+                responses: {
+                    '200': {
+                        description: 'Pet',
+                        content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } },
+                    },
+                },
+            },
+        },
+    },
+    components: {
+        schemas: {
+            NewPet: {
+                type: 'object',
+                required: ['name'],
+                properties: {
+                    name: { type: 'string', minLength: 1 },
+                    kind: { type: 'string', enum: ['cat', 'dog'], nullable: true },
+                },
+            },
+            Pet: {
+                allOf: [
+                    { $ref: '#/components/schemas/NewPet' },
+                    {
+                        type: 'object',
+                        required: ['id'],
+                        properties: { id: { type: 'integer' }, parent: { $ref: '#/components/schemas/Pet' } },
+                    },
+                ],
+            },
+        },
+    },
+}
+
+const evaluate = (source: string): any => {
+    const { outputText } = ts.transpileModule(source, {
+        compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2022 },
+    })
+    const module = { exports: {} as any }
+    const load = (name: string) => (name === 'zod' ? zod : {})
+    new Function('require', 'module', 'exports', outputText)(load, module, module.exports)
+    return module.exports
+}
+
+describe('generateClient', () => {
+    it('should emit types keyed by the operation names of the client', () => {
+        const source = generateClient(spec)
+        const api = createTypedApi<any, any>(spec, { url: 'http://localhost' })
+
+        for (const name of ['listPets', 'create_pet', 'getPetsPetId']) {
+            expect(typeof api[name]).toBe('function')
+            expect(source).toContain(`    ${name}(params`)
+        }
+        expect(source).toContain('export type Pet = Schemas.NewPet & {')
+        expect(source).toContain('kind?: "cat" | "dog" | null')
+        expect(source).toContain(
+            'create_pet(params: Operations.Create_pet.Parameters, data: Operations.Create_pet.RequestBody',
+        )
+        expect(source).toContain('"/pets/{petId}": {\n        get: OperationMethods["getPetsPetId"]\n    }')
+        expect(source).toContain('    /**\n     * Lists pets\n     * @deprecated\n     */\n    listPets(')
+        expect(source).toContain('/** @deprecated */\n            offset?: number')
+        expect(source).not.toContain('createClient')
+    })
+
+    it('should emit working zod validators for requests and responses', () => {
+        const { apiRequestValidators, apiResponseValidators } = evaluate(generateClient(spec))
+
+        const pets = apiResponseValidators.listPets['200']
+        expect(pets.safeParse([{ id: 1, name: 'Tom', parent: { id: 2, name: 'Kit' }, extra: true }]).success).toBe(true)
+        expect(pets.safeParse([{ id: 1, name: 'Tom', parent: { id: 2 } }]).success).toBe(false)
+        expect(apiRequestValidators.listPets.params.safeParse({ limit: 0 }).success).toBe(false)
+        expect(apiRequestValidators.create_pet.body.safeParse({ name: 'Tom', kind: null }).success).toBe(true)
+        expect(apiRequestValidators.create_pet.body.safeParse({ name: '' }).success).toBe(false)
+        expect(apiRequestValidators.getPetsPetId.params.safeParse('abc').success).toBe(true)
+    })
+
+    it('should nest methods of tag namespaces', () => {
+        const tagged: OpenAPISpec = {
+            ...spec,
+            paths: { '/pets': { get: { ...spec.paths!['/pets'].get!, tags: ['Pet store'] } } },
+        }
+        const source = generateClient(tagged, { namespaceByTag: true })
+
+        expect(source).toContain('export interface OperationMethods {\n    petStore: {\n        /**')
+        expect(source).toContain('get: OperationMethods["petStore"]["listPets"]')
+        expect(source).toContain('    petStore: {\n        listPets: Operations.ListPets.ErrorBody\n    }')
+        expect(source).toContain('export const apiResponseValidators = {\n    listPets: {')
+    })
+
+    it('should emit a client factory bound to the spec', () => {
+        const source = generateClient(spec, { client: true, importPath: '../client' })
+        expect(source).toContain(
+            "import { createTypedApi, OpenAPISpec, OperationConfig, ResponseMode, TypedApiConfig } from '../client'",
+        )
+        expect(source).toContain(
+            "export const createClient = <Mode extends ResponseMode = 'envelope'>(\n    config: TypedApiConfig & { responseMode?: Mode } = {},\n) =>",
+        )
+        expect(source).toContain('"operationId": "create-pet"')
+    })
+})
+
+describe('cli', () => {
+    let dir: string
+    const io = { stdout: jest.fn(), stderr: jest.fn() }
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'openapi-codegen-'))
+        writeFileSync(join(dir, 'spec.json'), JSON.stringify(spec))
+        io.stdout.mockClear()
+        io.stderr.mockClear()
+    })
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('should write the generated module and check that it is up to date', async () => {
+        const output = join(dir, 'api.ts')
+
+        expect(await runCli([join(dir, 'spec.json'), '--check', '-o', output], io)).toBe(1)
+        expect(await runCli([join(dir, 'spec.json'), '-o', output], io)).toBe(0)
+        expect(readFileSync(output, 'utf8')).toBe(generateClient(spec))
+        expect(await runCli([join(dir, 'spec.json'), '--check', '-o', output], io)).toBe(0)
+
+        writeFileSync(output, `${readFileSync(output, 'utf8')}// edited\n`)
+        expect(await runCli([join(dir, 'spec.json'), '--check', '-o', output], io)).toBe(1)
+        expect(io.stderr).toHaveBeenLastCalledWith(expect.stringContaining('is out of date'))
+    })
+
+    it('should print to stdout and reject invalid arguments', async () => {
+        expect(await runCli([join(dir, 'spec.json')], io)).toBe(0)
+        expect(io.stdout).toHaveBeenCalledWith(generateClient(spec))
+        expect(await runCli(['--unknown'], io)).toBe(2)
+        expect(await runCli([join(dir, 'missing.json')], io)).toBe(1)
+    })
+})
@@ -0,0 +1,71 @@
+import MockAdapter from 'axios-mock-adapter'
+import { createApi, PROBLEM_CODE } from '../src'
+
+const delayed = (ms: number, response: [number, any]) =>
+    new Promise<[number, any]>((resolve) => setTimeout(() => resolve(response), ms))
+
+describe('request deduplication', () => {
+    it('should share identical GET requests in flight', async () => {
+        const api = createApi({ url: 'http://localhost', dedupe: true })
+        const mock = new MockAdapter(api as any)
+        mock.onGet('/users/1').reply(() => delayed(20, [200, { id: 1 }]))
+        mock.onPost('/users').reply(() => delayed(20, [201, {}]))
+
+        const responses = await Promise.all([
+            api.get('/users/1'),
+            api.get('/users/1'),
+            api.get('/users/1', { headers: { 'Accept-Language': 'de' } }),
+            api.post('/users', {}),
+            api.post('/users', {}),
+        ])
+
+        expect(responses.every((res) => res.ok)).toBe(true)
+        expect(responses[1].data).toEqual({ id: 1 })
+        expect(mock.history.get).toHaveLength(2)
+        expect(mock.history.post).toHaveLength(2)
+
+        await api.get('/users/1')
+        expect(mock.history.get).toHaveLength(3)
+    })
+
+    it('should only cancel the shared request when every caller cancelled', async () => {
+        const api = createApi({ url: 'http://localhost', dedupe: true })
+        const mock = new MockAdapter(api as any)
+        mock.onGet('/users/1').reply(() => delayed(20, [200, { id: 1 }]))
+        const first = new AbortController()
+        const second = new AbortController()
+
+        const cancelled = api.get('/users/1', { signal: first.signal })
+        const kept = api.get('/users/1', { signal: second.signal })
+        first.abort()
+
+        expect((await cancelled).problem).toBe(PROBLEM_CODE.CANCEL_ERROR)
+        expect((await kept).data).toEqual({ id: 1 })
+        expect(mock.history.get).toHaveLength(1)
+    })
+
+    it('should give each caller its own data and timings', async () => {
+        const api = createApi({ url: 'http://localhost', dedupe: true, queue: { concurrency: 1 } })
+        const mock = new MockAdapter(api as any)
+        mock.onGet('/slow').reply(() => delayed(60, [200, {}]))
+        mock.onGet('/users/1').reply(200, { id: 1, tags: [] })
+        mock.onGet('/missing').reply(() => delayed(20, [404, { message: 'Not found' }]))
+
+        const slow = api.get('/slow')
+        const first = api.get<any>('/users/1')
+        await new Promise((resolve) => setTimeout(resolve, 30))
+        const second = api.get<any>('/users/1')
+        const [a, b] = await Promise.all([first, second, slow])
+
+        a.data.tags.push('changed')
+        expect(b.data).toEqual({ id: 1, tags: [] })
+        expect(a.queueTime!).toBeGreaterThanOrEqual(50)
+        expect(b.queueTime!).toBeLessThanOrEqual(a.queueTime! - 20)
+        expect(mock.history.get).toHaveLength(2)
+
+        const failures = await Promise.all([api.get<any, any>('/missing'), api.get<any, any>('/missing')])
+        failures[0].data.message = 'changed'
+        expect(failures[1]).toMatchObject({ ok: false, status: 404, data: { message: 'Not found' } })
+        expect(failures[1].config).not.toBe(failures[0].config)
+    })
+})
@@ -0,0 +1,90 @@
+import MockAdapter from 'axios-mock-adapter'
+import { createTypedApi, getOperations, normalizeSpec, OpenAPISpec, resolveRef, SpecReferenceError } from '../src'
+
+const spec: OpenAPISpec = {
+    openapi: '3.1.0',
+    info: { title: 'Test', version: '1.0.0' },
+    paths: {
+        '/tenants/{tenantId}/users': {
+            $ref: '#/components/pathItems/Users',
+        },
+    },
+    components: {
+        parameters: {
+            TenantId: { name: 'tenantId', in: 'path', required: true, schema: { type: 'string' } },
+            Tenant: { $ref: '#/components/parameters/TenantId' },
+            Trace: { name: 'X-Trace-Id', in: 'header' },
+        },
+        requestBodies: {
+            User: { content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } } },
+        },
+        responses: {
+            Users: { description: 'Users', content: { 'application/json': { schema: { type: 'array' } } } },
+        },
+        schemas: {
+            User: { type: 'object', properties: { manager: { $ref: '#/components/schemas/User' } } },
+        },
+        pathItems: {
+            Users: {
+                parameters: [{ $ref: '#/components/parameters/Tenant' }],
+                get: {
+                    operationId: 'listUsers',
+                    parameters: [{ $ref: '#/components/parameters/Trace' }],
+                    responses: { '200': { $ref: '#/components/responses/Users' } },
+                },
+                post: {
+                    operationId: 'createUser',
+                    requestBody: { $ref: '#/components/requestBodies/User' },
+                },
+            },
+        },
+    },
+}
+
+describe('resolveRef', () => {
+    it('should follow chains of references', () => {
+        expect(resolveRef(spec, { $ref: '#/components/parameters/Tenant' })).toEqual(
+            spec.components!.parameters!.TenantId,
+        )
+    })
+
+    it('should detect reference cycles', () => {
+        const cyclic: OpenAPISpec = {
+            components: {
+                parameters: { A: { $ref: '#/components/parameters/B' }, B: { $ref: '#/components/parameters/A' } },
+            },
+        }
+        expect(() => resolveRef(cyclic, { $ref: '#/components/parameters/A' })).toThrow(SpecReferenceError)
+    })
+
+    it('should throw on missing targets and external references', () => {
+        expect(() => resolveRef(spec, { $ref: '#/components/parameters/Missing' })).toThrow(
+            'Cannot resolve reference #/components/parameters/Missing',
+        )
+        expect(() => resolveRef(spec, { $ref: 'other.yaml#/Foo' })).toThrow(SpecReferenceError)
+    })
+})
+
+describe('getOperations', () => {
+    it('should resolve shared path items, parameters, request bodies and responses', () => {
+        const [list, create] = getOperations(normalizeSpec(spec))
+
+        expect(list.operation.operationId).toBe('listUsers')
+        expect(list.parameters.map((p) => `${p.in}:${p.name}`)).toEqual(['path:tenantId', 'header:X-Trace-Id'])
+        expect(list.responses['200'].description).toBe('Users')
+        expect(create.requestBody?.content['application/json'].schema).toEqual({ $ref: '#/components/schemas/User' })
+    })
+})
+
+describe('buildClientFromSpec with references', () => {
+    it('should route referenced parameters to their declared location', async () => {
+        const api = createTypedApi<any, any>(spec, { url: 'http://localhost' })
+        const mock = new MockAdapter(api as any)
+        mock.onGet('/tenants/t1/users').reply((config) => [200, config.headers])
+
+        const res = await api.listUsers({ tenantId: 't1', 'X-Trace-Id': 'abc' })
+
+        expect(res.ok).toBe(true)
+        expect(res.data['X-Trace-Id']).toBe('abc')
+    })
+})
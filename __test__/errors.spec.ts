@@ -0,0 +1,97 @@
+import MockAdapter from 'axios-mock-adapter'
+import { z } from 'zod'
+import {
+    ApiError,
+    ApiErrorResponse,
+    createApi,
+    createTypedApi,
+    isProblem,
+    OpenAPISpec,
+    PROBLEM_CODE,
+    unwrap,
+} from '../src'
+
+const spec: OpenAPISpec = {
+    openapi: '3.0.3',
+    info: { title: 'Users', version: '1' },
+    paths: {
+        '/users/{id}': {
+            get: {
+                operationId: 'getUser',
+                parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }],
+                responses: {},
+            },
+        },
+    },
+}
+
+describe('response modes', () => {
+    it('should resolve with ok responses and throw ApiError in the throw mode', async () => {
+        const api = createTypedApi<any, any, {}, 'throw'>(spec, { url: 'http://localhost', responseMode: 'throw' })
+        const mock = new MockAdapter(api as any)
+        mock.onGet('/users/1').reply(200, { id: 1 })
+        mock.onGet('/users/2').reply(404, { message: 'Not found' })
+
+        expect(await api.getUser(1)).toMatchObject({ ok: true, status: 200, data: { id: 1 } })
+
+        const error = await api.getUser(2).catch((e: unknown) => e)
+        expect(error).toBeInstanceOf(ApiError)
+        expect(error).toMatchObject({
+            name: 'ApiError',
+            problem: PROBLEM_CODE.CLIENT_ERROR,
+            status: 404,
+            data: { message: 'Not found' },
+            operationId: 'getUser',
+            message: 'getUser failed with CLIENT_ERROR (status 404)',
+        })
+        expect((error as ApiError).response.ok).toBe(false)
+    })
+
+    it('should resolve with the body in the data mode', async () => {
+        const api = createTypedApi<any, any, {}, 'data'>(spec, {
+            url: 'http://localhost',
+            responseMode: 'data',
+            requestValidators: { getUser: { params: z.number() } },
+        })
+        new MockAdapter(api as any).onGet('/users/1').reply(200, { id: 1 })
+
+        const [user, invalid] = await Promise.allSettled([api.getUser(1), api.getUser('x')])
+
+        expect(user).toEqual({ status: 'fulfilled', value: { id: 1 } })
+        expect(invalid.status === 'rejected' && invalid.reason).toMatchObject({
+            problem: PROBLEM_CODE.REQUEST_VALIDATION_ERROR,
+            operationId: 'getUser',
+            status: 0,
+        })
+    })
+})
+
+describe('unwrap', () => {
+    it('should return the data of ok responses and throw for the rest', async () => {
+        const api = createApi({ url: 'http://localhost' })
+        const mock = new MockAdapter(api as any)
+        mock.onGet('/ok').reply(200, 'hello')
+        mock.onGet('/down').reply(503)
+
+        expect(unwrap(await api.get<string>('/ok'))).toBe('hello')
+        const down = await api.get('/down')
+        expect(() => unwrap(down)).toThrow('GET /down failed with SERVER_ERROR (status 503)')
+    })
+})
+
+describe('isProblem', () => {
+    it('should match errors and responses by problem', async () => {
+        const api = createApi({ url: 'http://localhost' })
+        const mock = new MockAdapter(api as any)
+        mock.onGet('/').timeout()
+        const res = await api.get('/')
+        const error = new ApiError(res as ApiErrorResponse<unknown>)
+
+        expect(isProblem(res)).toBe(true)
+        expect(isProblem(res, PROBLEM_CODE.TIMEOUT_ERROR)).toBe(true)
+        expect(isProblem(error, [PROBLEM_CODE.NETWORK_ERROR, PROBLEM_CODE.TIMEOUT_ERROR])).toBe(true)
+        expect(isProblem(error, PROBLEM_CODE.SERVER_ERROR)).toBe(false)
+        expect(isProblem(new Error('other'))).toBe(false)
+        expect(isProblem({ ok: true, problem: null })).toBe(false)
+    })
+})
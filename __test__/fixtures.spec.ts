@@ -0,0 +1,171 @@
+import MockAdapter from 'axios-mock-adapter'
+import { mkdtemp, readFile, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { createApi, createTypedApi, Fixture, FixtureStorage, OpenAPISpec, PROBLEM_CODE, REDACTED } from '../src'
+
+const spec: OpenAPISpec = {
+    openapi: '3.0.3',
+    info: { title: 'Users', version: '1' },
+    paths: {
+        '/users': {
+            get: { operationId: 'listUsers', responses: {} },
+            post: { operationId: 'createUser', responses: {} },
+        },
+    },
+}
+
+const createMemoryStorage = (): FixtureStorage & { files: Map<string, Fixture[]> } => {
+    const files = new Map<string, Fixture[]>()
+    return {
+        files,
+        read: async (name) => JSON.parse(JSON.stringify(files.get(name) ?? [])),
+        write: async (name, fixtures) => {
+            files.set(name, JSON.parse(JSON.stringify(fixtures)))
+        },
+    }
+}
+
+describe('fixtures', () => {
+    let dir: string
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'fixtures-'))
+    })
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true })
+    })
+
+    it('should record responses to files and replay them offline', async () => {
+        const recorder = createTypedApi<any, any>(spec, {
+            url: 'http://localhost',
+            headers: { Authorization: 'Bearer secret' },
+            fixtures: { mode: 'record', dir },
+        })
+        const network = new MockAdapter(recorder as any)
+        network.onGet('/users').reply(200, [{ id: 1 }], { 'set-cookie': 'session=1' })
+        network.onPost('/users').reply(422, { message: 'Invalid' })
+
+        await recorder.listUsers({ limit: 10 })
+        await recorder.createUser({}, { name: '' })
+
+        const file = JSON.parse(await readFile(join(dir, 'listUsers.json'), 'utf8'))
+        expect(file).toMatchObject([
+            {
+                operationId: 'listUsers',
+                request: { method: 'get', url: '/users?limit=10', headers: { authorization: REDACTED } },
+                response: { status: 200, data: [{ id: 1 }], headers: { 'set-cookie': REDACTED } },
+            },
+        ])
+
+        const player = createTypedApi<any, any>(spec, {
+            url: 'http://localhost',
+            headers: { Authorization: 'Bearer other' },
+            fixtures: { mode: 'replay', dir, strict: true },
+        })
+        const offline = new MockAdapter(player as any)
+
+        expect(await player.listUsers({ limit: 10 })).toMatchObject({ ok: true, data: [{ id: 1 }] })
+        expect(await player.createUser({}, { name: '' })).toMatchObject({
+            ok: false,
+            problem: PROBLEM_CODE.CLIENT_ERROR,
+            data: { message: 'Invalid' },
+        })
+        expect(await player.listUsers({ limit: 20 })).toMatchObject({ ok: false, problem: PROBLEM_CODE.UNKNOWN_ERROR })
+        expect(offline.history.get).toHaveLength(0)
+    })
+
+    it('should redact API keys sent in the query', async () => {
+        const keySpec: OpenAPISpec = {
+            ...spec,
+            security: [{ apiKey: [] }],
+            components: { securitySchemes: { apiKey: { type: 'apiKey', name: 'api_key', in: 'query' } } },
+        }
+        const storage = createMemoryStorage()
+        const recorder = createTypedApi<any, any>(keySpec, {
+            url: 'http://localhost',
+            credentials: { apiKey: 'secret' },
+            fixtures: { mode: 'record', storage },
+        })
+        new MockAdapter(recorder as any).onGet('/users').reply(200, [{ id: 1 }])
+
+        await recorder.listUsers({ limit: 10 })
+        const url = storage.files.get('listUsers')?.[0].request.url
+        expect(url).not.toContain('secret')
+        expect(new URLSearchParams(url!.split('?')[1]).get('api_key')).toBe(REDACTED)
+
+        const player = createTypedApi<any, any>(keySpec, {
+            url: 'http://localhost',
+            credentials: { apiKey: 'other' },
+            fixtures: { mode: 'replay', storage, strict: true },
+        })
+        new MockAdapter(player as any)
+
+        expect(await player.listUsers({ limit: 10 })).toMatchObject({ ok: true, data: [{ id: 1 }] })
+    })
+
+    it('should replay repeated requests in order and fall back to the network when not strict', async () => {
+        const storage = createMemoryStorage()
+        const recorder = createApi({ url: 'http://localhost', fixtures: { mode: 'record', storage } })
+        new MockAdapter(recorder as any).onGet('/count').replyOnce(200, 1).onGet('/count').replyOnce(200, 2)
+
+        await recorder.get('/count')
+        await recorder.get('/count')
+        expect(storage.files.get('get_count')).toHaveLength(2)
+
+        const player = createApi({ url: 'http://localhost', fixtures: { mode: 'replay', storage } })
+        const network = new MockAdapter(player as any)
+        network.onGet('/other').reply(200, 'live')
+
+        expect((await player.get('/count')).data).toBe(1)
+        expect((await player.get('/count')).data).toBe(2)
+        expect((await player.get('/count')).data).toBe(2)
+        expect((await player.get('/other')).data).toBe('live')
+        expect(network.history.get).toHaveLength(1)
+    })
+
+    it('should apply matching rules and redaction hooks', async () => {
+        const storage = createMemoryStorage()
+        const recorder = createTypedApi<any, any>(spec, {
+            url: 'http://localhost',
+            fixtures: {
+                mode: 'record',
+                storage,
+                redact: (fixture) => ({
+                    ...fixture,
+                    request: { ...fixture.request, body: { ...fixture.request.body, password: REDACTED } },
+                }),
+            },
+        })
+        new MockAdapter(recorder as any).onPost('/users').reply(201, { id: 1 })
+        await recorder.createUser(
+            {},
+            { name: 'Jane', password: 'hunter2', requestedAt: 1 },
+            { headers: { 'X-Trace': 'a' } },
+        )
+
+        expect(storage.files.get('createUser')?.[0].request.body).toEqual({
+            name: 'Jane',
+            password: REDACTED,
+            requestedAt: 1,
+        })
+
+        const player = createTypedApi<any, any>(spec, {
+            url: 'http://localhost',
+            fixtures: {
+                mode: 'replay',
+                storage,
+                strict: true,
+                ignoreHeaders: ['X-Trace'],
+                bodyMatchers: { createUser: (actual, recorded) => actual.name === recorded.name },
+            },
+        })
+        const res = await player.createUser(
+            {},
+            { name: 'Jane', password: 'other', requestedAt: 2 },
+            { headers: { 'X-Trace': 'b' } },
+        )
+        expect(res).toMatchObject({ ok: true, status: 201, data: { id: 1 } })
+    })
+})
@@ -1,4 +1,4 @@
-import { createApi, ApiInstance } from '../src'
+import { createApi, ApiInstance, PROBLEM_CODE } from '../src'
 import { MockServer } from 'jest-mock-server'
 
 const server = new MockServer()
@@ -58,3 +58,45 @@ describe('Test api', () => {
         expect(response.data).toMatch('Hello')
     })
 })
+
+describe('Test api errors', () => {
+    it('Should preserve the error response body', async () => {
+        server.get('/').mockImplementationOnce((ctx) => {
+            ctx.status = 422
+            ctx.body = { title: 'Invalid input', errors: ['name is required'] }
+        })
+        const response = await api.get('/')
+        expect(response.ok).toBe(false)
+        expect(response.problem).toBe(PROBLEM_CODE.CLIENT_ERROR)
+        expect(response.status).toBe(422)
+        expect(response.data).toEqual({ title: 'Invalid input', errors: ['name is required'] })
+    })
+    it('Should detect server errors', async () => {
+        server.get('/').mockImplementationOnce((ctx) => {
+            ctx.status = 503
+        })
+        const response = await api.get('/')
+        expect(response.problem).toBe(PROBLEM_CODE.SERVER_ERROR)
+    })
+    it('Should detect timeouts', async () => {
+        server.get('/').mockImplementationOnce(async (ctx) => {
+            await new Promise((resolve) => setTimeout(resolve, 200))
+            ctx.status = 200
+        })
+        const response = await api.get('/', { timeout: 20 })
+        expect(response.problem).toBe(PROBLEM_CODE.TIMEOUT_ERROR)
+    })
+    it('Should detect cancellation', async () => {
+        const controller = new AbortController()
+        controller.abort()
+        const response = await api.get('/', { signal: controller.signal })
+        expect(response.problem).toBe(PROBLEM_CODE.CANCEL_ERROR)
+    })
+    it('Should detect connection errors', async () => {
+        const closedApi = createApi({ url: 'http://127.0.0.1:1' })
+        const response = await closedApi.get('/')
+        expect(response.ok).toBe(false)
+        expect(response.problem).toBe(PROBLEM_CODE.CONNECTION_ERROR)
+        expect(response.data).toBeUndefined()
+    })
+})
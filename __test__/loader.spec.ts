@@ -0,0 +1,99 @@
+import { mkdtempSync, writeFileSync, mkdirSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { pathToFileURL } from 'url'
+import { MockServer } from 'jest-mock-server'
+import { loadSpec, SpecLoadError } from '../src'
+
+let dir: string
+
+beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'openapi-loader-'))
+    mkdirSync(join(dir, 'schemas'))
+    writeFileSync(
+        join(dir, 'spec.yaml'),
+        [
+            'openapi: 3.0.3',
+            'paths:',
+            '  /users:',
+            '    get:',
+            '      operationId: listUsers',
+            '      parameters:',
+            "        - $ref: 'parameters.json#/Page'",
+            '      responses:',
+            "        '200':",
+            '          content:',
+            '            application/json:',
+            '              schema:',
+            "                $ref: './schemas/user.yaml'",
+            'components:',
+            '  schemas:',
+            '    Local:',
+            '      type: string',
+        ].join('\n'),
+    )
+    writeFileSync(join(dir, 'parameters.json'), JSON.stringify({ Page: { name: 'page', in: 'query' } }))
+    writeFileSync(
+        join(dir, 'schemas', 'user.yaml'),
+        [
+            'type: object',
+            'properties:',
+            '  name:',
+            "    $ref: '#/definitions/Name'",
+            '  manager:',
+            "    $ref: 'user.yaml'",
+            'definitions:',
+            '  Name:',
+            '    type: string',
+        ].join('\n'),
+    )
+    writeFileSync(join(dir, 'broken.yaml'), 'paths: [')
+})
+
+afterAll(() => rmSync(dir, { recursive: true, force: true }))
+
+describe('loadSpec', () => {
+    it('should load YAML specs from the filesystem and bundle external refs', async () => {
+        const spec: any = await loadSpec(join(dir, 'spec.yaml'))
+        const operation = spec.paths['/users'].get
+
+        expect(operation.parameters).toEqual([{ name: 'page', in: 'query' }])
+        const schema = operation.responses['200'].content['application/json'].schema
+        expect(schema).toEqual({ $ref: '#/components/schemas/user' })
+        expect(spec.components.schemas.Local).toEqual({ type: 'string' })
+        expect(spec.components.schemas.user.properties).toEqual({
+            name: { type: 'string' },
+            manager: { $ref: '#/components/schemas/user' },
+        })
+    })
+
+    it('should load specs from file URLs', async () => {
+        const spec: any = await loadSpec(pathToFileURL(join(dir, 'parameters.json')).href)
+        expect(spec.Page.name).toBe('page')
+    })
+
+    it('should load specs over HTTP', async () => {
+        const server = new MockServer()
+        await server.start()
+        server.get('/openapi.json').mockImplementationOnce((ctx) => {
+            ctx.status = 200
+            ctx.body = JSON.stringify({ paths: {} })
+        })
+        const spec = await loadSpec(new URL('/openapi.json', server.getURL()).href)
+        await server.stop()
+        expect(spec).toEqual({ paths: {} })
+    })
+
+    it('should throw SpecLoadError with the location of a missing file', async () => {
+        const location = join(dir, 'missing.yaml')
+        const error = await loadSpec(location).catch((e) => e)
+        expect(error).toBeInstanceOf(SpecLoadError)
+        expect(error.location).toBe(location)
+        expect(error.cause).toBeDefined()
+        expect(error.message).toContain('Failed to load OpenAPI spec')
+    })
+
+    it('should throw SpecLoadError for invalid documents', async () => {
+        await expect(loadSpec(join(dir, 'broken.yaml'))).rejects.toBeInstanceOf(SpecLoadError)
+    })
+})
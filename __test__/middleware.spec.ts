@@ -0,0 +1,119 @@
+import MockAdapter from 'axios-mock-adapter'
+import { z } from 'zod'
+import { ApiResponse, createTypedApi, Middleware, MiddlewareContext, OpenAPISpec, PROBLEM_CODE } from '../src'
+
+const spec: OpenAPISpec = {
+    openapi: '3.0.3',
+    info: { title: 'Users', version: '1' },
+    paths: {
+        '/users': {
+            get: { operationId: 'listUsers', tags: ['users'], responses: {} },
+            post: { operationId: 'createUser', tags: ['users', 'admin'], responses: {} },
+        },
+        '/users/{id}': {
+            get: {
+                operationId: 'getUser',
+                parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }],
+                responses: {},
+            },
+        },
+    },
+}
+
+const createApi = (config = {}) => {
+    const api = createTypedApi<any, any>(spec, { url: 'http://localhost', ...config })
+    return { api, mock: new MockAdapter(api as any) }
+}
+
+describe('middleware', () => {
+    it('should pass the operation being called', async () => {
+        const { api, mock } = createApi()
+        mock.onPost('/users').reply(201, { id: 1 })
+        const contexts: MiddlewareContext[] = []
+        api.use(async (context, next) => {
+            contexts.push(context)
+            return next()
+        })
+
+        await api.createUser({}, { name: 'Jane' }, { headers: { 'X-Trace': 'a' } })
+
+        expect(contexts).toHaveLength(1)
+        expect(contexts[0]).toMatchObject({
+            operationId: 'createUser',
+            path: '/users',
+            method: 'post',
+            params: {},
+            body: { name: 'Jane' },
+            config: { headers: { 'X-Trace': 'a' } },
+            metadata: { tags: ['users', 'admin'] },
+        })
+        expect(contexts[0].operation.operation).toBe(spec.paths!['/users'].post)
+    })
+
+    it('should short-circuit, retry and transform responses', async () => {
+        const { api, mock } = createApi()
+        mock.onGet('/users/1').replyOnce(503).onGet('/users/1').reply(200, { id: 1, name: 'Jane' })
+
+        api.use(async (context, next) =>
+            context.params.id === 0 ? ({ ok: true, data: { id: 0 } } as ApiResponse<any>) : next(),
+        )
+        api.use(async (_context, next) => {
+            const res = await next()
+            return res.ok ? res : next()
+        })
+        api.use(async (context, next) => {
+            const res = await next({ ...context, params: { id: Number(context.params.id) } })
+            return res.ok ? { ...res, data: { ...res.data, fetched: true } } : res
+        })
+
+        expect(await api.getUser({ id: 0 })).toEqual({ ok: true, data: { id: 0 } })
+        expect(await api.getUser({ id: '1' })).toMatchObject({ ok: true, data: { id: 1, name: 'Jane', fetched: true } })
+        expect(mock.history.get.map((request) => request.url)).toEqual(['/users/1', '/users/1'])
+    })
+
+    it('should apply middlewares by operation and tag in the order they were added', async () => {
+        const { api, mock } = createApi()
+        mock.onAny().reply(200, {})
+        const calls: string[] = []
+        const record =
+            (name: string): Middleware =>
+            async (context, next) => {
+                calls.push(`${name}:${context.operationId}`)
+                return next()
+            }
+
+        api.use(record('all'))
+        const remove = api.use(record('users'), { tags: ['users'] })
+        api.use(record('get'), { operations: ['getUser'] })
+
+        await api.listUsers()
+        await api.getUser({ id: 1 })
+        remove()
+        await api.createUser({}, {})
+
+        expect(calls).toEqual(['all:listUsers', 'users:listUsers', 'all:getUser', 'get:getUser', 'all:createUser'])
+    })
+
+    it('should run validation after the added middlewares', async () => {
+        const { api, mock } = createApi({
+            requestValidators: { getUser: { params: z.object({ id: z.number() }) } },
+            validators: { listUsers: z.array(z.object({ id: z.number() })) },
+        })
+        mock.onGet('/users').reply(200, [{ id: 'a' }])
+        const results: ApiResponse<any>[] = []
+        api.use(async (_context, next) => {
+            const res = await next()
+            results.push(res)
+            return res
+        })
+
+        await api.getUser({ id: 'a' })
+        await api.listUsers()
+
+        expect(results.map((res) => !res.ok && res.problem)).toEqual([
+            PROBLEM_CODE.REQUEST_VALIDATION_ERROR,
+            PROBLEM_CODE.VALIDATION_ERROR,
+        ])
+        expect(mock.history.get).toHaveLength(1)
+    })
+})
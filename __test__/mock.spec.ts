@@ -0,0 +1,189 @@
+import MockAdapter from 'axios-mock-adapter'
+import { z } from 'zod'
+import { createTypedApi, generateFromSchema, MockProblem, OpenAPISpec, PROBLEM_CODE } from '../src'
+
+const spec: OpenAPISpec = {
+    openapi: '3.0.3',
+    info: { title: 'Users', version: '1' },
+    servers: [{ url: 'https://api.example.com' }],
+    components: {
+        schemas: {
+            User: {
+                type: 'object',
+                required: ['id', 'email'],
+                properties: {
+                    id: { type: 'integer', minimum: 1 },
+                    email: { type: 'string', format: 'email' },
+                    role: { type: 'string', enum: ['admin', 'user'] },
+                    password: { type: 'string', writeOnly: true },
+                    tags: { type: 'array', items: { type: 'string' } },
+                },
+            },
+        },
+    },
+    paths: {
+        '/users': {
+            get: {
+                operationId: 'listUsers',
+                responses: {
+                    '200': {
+                        description: 'Users',
+                        content: {
+                            'application/json': {
+                                examples: {
+                                    one: { value: [{ id: 1, email: 'a@example.com' }] },
+                                    empty: { value: [] },
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+            post: {
+                operationId: 'createUser',
+                responses: {
+                    '201': {
+                        description: 'Created',
+                        content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } },
+                    },
+                    '422': {
+                        description: 'Invalid',
+                        content: { 'application/json': { example: { message: 'Invalid email' } } },
+                    },
+                },
+            },
+        },
+        '/users/{id}': {
+            get: {
+                operationId: 'getUser',
+                responses: {
+                    '200': {
+                        description: 'User',
+                        content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } },
+                    },
+                },
+            },
+        },
+    },
+}
+
+describe('generateFromSchema', () => {
+    it('should generate values from schemas', () => {
+        expect(generateFromSchema(spec, { $ref: '#/components/schemas/User' })).toEqual({
+            id: 1,
+            email: 'user@example.com',
+            role: 'admin',
+            tags: ['string'],
+        })
+        expect(
+            generateFromSchema(spec, {
+                allOf: [
+                    { properties: { a: { type: 'boolean' } } },
+                    { properties: { b: { type: 'number', default: 2 } } },
+                ],
+            }),
+        ).toEqual({ a: true, b: 2 })
+        expect(generateFromSchema(spec, { oneOf: [{ type: 'string', format: 'date' }, { type: 'integer' }] })).toBe(
+            '1970-01-01',
+        )
+        expect(generateFromSchema(spec, { type: ['null', 'string'], example: 'x' })).toBe('x')
+    })
+})
+
+describe('mock mode', () => {
+    it('should serve examples and generated data without touching the network', async () => {
+        const api = createTypedApi<any, any>(spec, { mock: true })
+        const network = new MockAdapter(api as any)
+        network.onAny().reply(500)
+
+        const users = await api.listUsers()
+        const user = await api.getUser(5)
+        const created = await api.createUser({}, { email: 'b@example.com' })
+
+        expect(users).toMatchObject({ ok: true, status: 200, data: [{ id: 1, email: 'a@example.com' }] })
+        expect(users.headers['content-type']).toBe('application/json')
+        expect(user.data).toMatchObject({ id: 1, email: 'user@example.com' })
+        expect(created.status).toBe(201)
+        expect(network.history.get).toHaveLength(0)
+        expect(network.history.post).toHaveLength(0)
+    })
+
+    it('should apply per-operation overrides', async () => {
+        const api = createTypedApi<any, any>(spec, {
+            mock: {
+                operations: {
+                    listUsers: { example: 'empty', headers: { 'x-total': '0' } },
+                    getUser: (request) => ({ data: { id: Number(request.pathParams.id), email: 'x@example.com' } }),
+                    createUser: { data: (request: any) => ({ id: 2, ...request.body }) },
+                },
+            },
+        })
+
+        const users = await api.listUsers()
+        expect(users.data).toEqual([])
+        expect(users.headers['x-total']).toBe('0')
+        expect((await api.getUser(7)).data).toEqual({ id: 7, email: 'x@example.com' })
+        expect((await api.createUser({}, { email: 'b@example.com' })).data).toEqual({ id: 2, email: 'b@example.com' })
+    })
+
+    it('should inject errors for problem codes and statuses', async () => {
+        const api = createTypedApi<any, any>(spec, {
+            mock: {
+                operations: {
+                    createUser: { problem: PROBLEM_CODE.CLIENT_ERROR },
+                    listUsers: { problem: PROBLEM_CODE.TIMEOUT_ERROR },
+                    getUser: { status: 503, delay: 5 },
+                },
+            },
+        })
+
+        const invalid = await api.createUser({}, {})
+        expect(invalid).toMatchObject({
+            ok: false,
+            problem: PROBLEM_CODE.CLIENT_ERROR,
+            status: 422,
+            data: { message: 'Invalid email' },
+        })
+        expect((await api.listUsers()).problem).toBe(PROBLEM_CODE.TIMEOUT_ERROR)
+        const unavailable = await api.getUser(1)
+        expect(unavailable).toMatchObject({ ok: false, problem: PROBLEM_CODE.SERVER_ERROR, status: 503 })
+        expect(unavailable.duration).toBeGreaterThanOrEqual(4)
+
+        const problems: MockProblem[] = [
+            PROBLEM_CODE.CONNECTION_ERROR,
+            PROBLEM_CODE.NETWORK_ERROR,
+            PROBLEM_CODE.CANCEL_ERROR,
+            PROBLEM_CODE.CIRCUIT_OPEN,
+        ]
+        for (const problem of problems) {
+            const failing = createTypedApi<any, any>(spec, { mock: { operations: { listUsers: { problem } } } })
+            expect((await failing.listUsers()).problem).toBe(problem)
+        }
+    })
+
+    it('should run response validators on mocked responses', async () => {
+        const api = createTypedApi<any, any>(spec, {
+            mock: { operations: { listUsers: { problem: PROBLEM_CODE.VALIDATION_ERROR } } },
+            validators: {
+                listUsers: z.array(z.object({ id: z.number() })),
+                getUser: z.object({ id: z.number(), email: z.email() }),
+            },
+        })
+
+        expect((await api.listUsers()).problem).toBe(PROBLEM_CODE.VALIDATION_ERROR)
+        expect((await api.getUser(1)).ok).toBe(true)
+    })
+
+    it('should inject validation errors without a validator', async () => {
+        const api = createTypedApi<any, any>(spec, {
+            mock: { operations: { listUsers: { problem: PROBLEM_CODE.VALIDATION_ERROR } } },
+        })
+
+        expect(await api.listUsers()).toMatchObject({
+            ok: false,
+            problem: PROBLEM_CODE.VALIDATION_ERROR,
+            status: 200,
+            issues: [{ code: 'custom', message: 'Injected by the mock' }],
+        })
+    })
+})
@@ -5,8 +5,12 @@ import {
     ApiInstance,
     AdaptedOperationMethods,
     splitParams,
+    mergeParameters,
     createTypedApi,
     OpenAPISpec,
+    OperationNameError,
+    PROBLEM_CODE,
+    ERR_REQUEST_VALIDATION,
 } from '../src'
 import z from 'zod'
 import MockAdapter from 'axios-mock-adapter'
@@ -184,6 +188,94 @@ describe('splitParams', () => {
         expect(url).toBe('/order/42')
         expect(pathParams).toEqual({ orderId: '42' })
     })
+
+    it('should route declared parameters by location', () => {
+        const { url, queryParams, headerParams, cookieParams } = splitParams(
+            '/user/{id}',
+            { id: 1, expand: 'full', 'X-Tenant-Id': 't1', session: 'abc' },
+            {
+                parameters: [
+                    { name: 'id', in: 'path', required: true },
+                    { name: 'expand', in: 'query' },
+                    { name: 'X-Tenant-Id', in: 'header' },
+                    { name: 'session', in: 'cookie' },
+                ],
+            },
+        )
+        expect(url).toBe('/user/1')
+        expect(queryParams).toEqual({ expand: 'full' })
+        expect(headerParams).toEqual({ 'X-Tenant-Id': 't1' })
+        expect(cookieParams).toEqual({ session: 'abc' })
+    })
+
+    it('should drop unknown parameters with drop policy', () => {
+        const { queryParams } = splitParams(
+            '/users',
+            { page: 1, foo: 'bar' },
+            { parameters: [{ name: 'page', in: 'query' }], unknownParams: 'drop' },
+        )
+        expect(queryParams).toEqual({ page: 1 })
+    })
+
+    it('should throw on unknown parameters with error policy', () => {
+        expect(() => splitParams('/users', { foo: 'bar' }, { parameters: [], unknownParams: 'error' })).toThrow(
+            'Unknown parameter: foo',
+        )
+    })
+})
+
+describe('mergeParameters', () => {
+    it('should let operation parameters override path item parameters', () => {
+        const merged = mergeParameters(
+            [
+                { name: 'id', in: 'path', required: true },
+                { name: 'X-Tenant-Id', in: 'header' },
+            ],
+            [{ name: 'X-Tenant-Id', in: 'header', required: true }],
+        )
+        expect(merged).toEqual([
+            { name: 'id', in: 'path', required: true },
+            { name: 'X-Tenant-Id', in: 'header', required: true },
+        ])
+    })
+})
+
+describe('Parameter locations', () => {
+    const locationSpec: OpenAPISpec = {
+        paths: {
+            '/tenants/{id}': {
+                parameters: [{ name: 'X-Tenant-Id', in: 'header', required: true }],
+                get: {
+                    operationId: 'getTenant',
+                    parameters: [
+                        { name: 'id', in: 'path', required: true },
+                        { name: 'session', in: 'cookie' },
+                        { name: 'expand', in: 'query' },
+                    ],
+                },
+            },
+        },
+    }
+
+    it('should send header and cookie parameters where the spec declares them', async () => {
+        const api = createTypedApi<any, any>(locationSpec, { url: 'http://localhost' })
+        const mock = new MockAdapter(api as any)
+        mock.onGet('/tenants/1').reply((config) => [200, { headers: config.headers, params: config.params }])
+
+        const res = await api.getTenant({ id: 1, 'X-Tenant-Id': 't1', session: 'a b', expand: 'all' })
+
+        expect(res.ok).toBe(true)
+        expect(res.data.headers['X-Tenant-Id']).toBe('t1')
+        expect(res.data.headers.Cookie).toBe('session=a%20b')
+        expect(res.data.params).toEqual({ expand: 'all' })
+    })
+
+    it('should reject unknown parameters when configured', async () => {
+        const api = createTypedApi<any, any>(locationSpec, { url: 'http://localhost', unknownParams: 'error' })
+        await expect(api.getTenant({ id: 1, 'X-Tenant-Id': 't1', foo: 'bar' })).rejects.toThrow(
+            'Unknown parameter: foo',
+        )
+    })
 })
 
 describe('createTypedApi', () => {
@@ -210,6 +302,136 @@ describe('createTypedApi', () => {
     })
 })
 
+describe('Operation names', () => {
+    const namingSpec = (paths: OpenAPISpec['paths']): OpenAPISpec => ({
+        openapi: '3.0.3',
+        info: { title: 'Names', version: '1' },
+        paths,
+    })
+
+    it('should reject operations that get the same name', () => {
+        const sanitized = namingSpec({
+            '/a': { get: { operationId: 'get-user', responses: {} } },
+            '/b': { get: { operationId: 'get_user', responses: {} } },
+        })
+        expect(() => createTypedApi<any, any>(sanitized, { url: '' })).toThrow(
+            'GET /b is named get_user, which is already used by GET /a',
+        )
+
+        const fallback = namingSpec({
+            '/users': { get: { responses: {} } },
+            '/other': { post: { operationId: 'getUsers', responses: {} } },
+        })
+        expect(() => createTypedApi<any, any>(fallback, { url: '' })).toThrow(OperationNameError)
+    })
+
+    it('should reject names of api instance members', () => {
+        for (const operationId of ['request', 'get', 'defaults', 'interceptors', 'paginate']) {
+            const reserved = namingSpec({ '/x': { post: { operationId, responses: {} } } })
+            expect(() => createTypedApi<any, any>(reserved, { url: '' })).toThrow(
+                `POST /x is named ${operationId}, which is a member of the api instance`,
+            )
+        }
+    })
+
+    it('should name methods with a custom strategy and group them by tag', async () => {
+        const tagged = namingSpec({
+            '/users/{id}': {
+                get: { operationId: 'getUser', tags: ['User accounts'], responses: {} },
+                delete: { tags: ['User accounts'], responses: {} },
+            },
+            '/health': { get: { operationId: 'health', responses: {} } },
+        })
+        const api = createTypedApi<any, any>(tagged, {
+            url: 'http://localhost',
+            namespaceByTag: true,
+            operationName: (path, method, operation) => operation.operationId ?? `${method}${path.split('/')[1]}`,
+        })
+        const mock = new MockAdapter(api as any)
+        mock.onGet('/users/1').reply(200, { id: 1 })
+        mock.onDelete('/users/1').reply(204)
+
+        expect(Object.keys(api.userAccounts)).toEqual(['getUser', 'deleteusers'])
+        expect(api.getUser).toBeUndefined()
+        expect(typeof api.health).toBe('function')
+        expect((await api.userAccounts.getUser(1)).data).toEqual({ id: 1 })
+        expect((await api.userAccounts.deleteusers(1)).config.operationId).toBe('deleteusers')
+        expect(() =>
+            createTypedApi<any, any>(
+                namingSpec({
+                    '/a': { get: { operationId: 'users', responses: {} } },
+                    '/b': { get: { operationId: 'listUsers', tags: ['users'], responses: {} } },
+                }),
+                { url: '', namespaceByTag: true },
+            ),
+        ).toThrow('The users tag is named users, which is already used by GET /a')
+    })
+})
+
+describe('Operation metadata', () => {
+    const metadataSpec: OpenAPISpec = {
+        openapi: '3.0.3',
+        info: { title: 'Metadata', version: '1' },
+        paths: {
+            '/users': {
+                get: {
+                    operationId: 'listUsers',
+                    tags: ['users'],
+                    summary: 'Lists users',
+                    parameters: [
+                        { name: 'page', in: 'query' },
+                        { name: 'offset', in: 'query', deprecated: true },
+                    ],
+                    responses: {},
+                },
+            },
+            '/legacy/users': {
+                get: { operationId: 'listLegacyUsers', tags: ['users', 'legacy'], deprecated: true, responses: {} },
+            },
+        },
+    }
+
+    it('should attach metadata to methods and register operations', () => {
+        const api = createTypedApi<any, any>(metadataSpec, { url: 'http://localhost' })
+
+        expect(api.listUsers.metadata).toEqual({
+            operationId: 'listUsers',
+            namespace: undefined,
+            path: '/users',
+            method: 'get',
+            tags: ['users'],
+            summary: 'Lists users',
+            description: undefined,
+            deprecated: false,
+            deprecatedParameters: ['offset'],
+        })
+        expect(api.operations.get('listLegacyUsers')).toBe(api.listLegacyUsers.metadata)
+        expect(api.operations.byTag('users').map((metadata) => metadata.operationId)).toEqual([
+            'listUsers',
+            'listLegacyUsers',
+        ])
+        expect(api.operations.list()).toHaveLength(2)
+        expect(api.operations.get('missing')).toBeUndefined()
+    })
+
+    it('should warn once about deprecated operations and parameters', async () => {
+        const logger = { warn: jest.fn() }
+        const api = createTypedApi<any, any>(metadataSpec, { url: 'http://localhost', logger })
+        new MockAdapter(api as any).onGet().reply(200, [])
+
+        await api.listLegacyUsers()
+        await api.listLegacyUsers()
+        await api.listUsers({ page: 1 })
+        await api.listUsers({ offset: 10 })
+        await api.listUsers({ offset: 20 })
+
+        expect(logger.warn.mock.calls).toEqual([
+            ['Operation listLegacyUsers (GET /legacy/users) is deprecated'],
+            ['Parameter offset of operation listUsers is deprecated'],
+        ])
+    })
+})
+
 describe('Response interceptor - validators', () => {
     let warnSpy: jest.SpyInstance
 
@@ -300,3 +522,131 @@ describe('Response interceptor - validators', () => {
         expect(res.data).toEqual({ id: 10, name: 'Bob' })
     })
 })
+
+describe('Request validators', () => {
+    const requestValidators = {
+        createUser: {
+            params: z.object({ id: z.coerce.number() }),
+            body: z.object({ name: z.string().min(1), role: z.string().default('user') }),
+        },
+    }
+
+    it('should not send requests that fail validation', async () => {
+        const api = createTypedApi<OperationMethods, any>(spec, { url: 'http://localhost', requestValidators })
+        const mock = new MockAdapter(api as any)
+        mock.onPost('/user/10').reply(201, {})
+
+        const res = await api.createUser({ id: 10 }, { name: '' })
+
+        expect(res.ok).toBe(false)
+        expect(res.problem).toBe(PROBLEM_CODE.REQUEST_VALIDATION_ERROR)
+        expect(!res.ok && res.issues?.[0].path).toEqual(['name'])
+        expect(res).toMatchObject({ status: 0, originalError: { code: ERR_REQUEST_VALIDATION } })
+        expect(mock.history.post).toHaveLength(0)
+    })
+
+    it('should send requests and warn when using warning behaviour', async () => {
+        const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {})
+        const api = createTypedApi<OperationMethods, any>(spec, {
+            url: 'http://localhost',
+            requestValidators,
+            requestValidationBehaviour: 'warning',
+        })
+        const mock = new MockAdapter(api as any)
+        mock.onPost('/user/10').reply(201, {})
+
+        const res = await api.createUser({ id: 10 }, { name: '' })
+
+        expect(res.ok).toBe(true)
+        expect(warnSpy).toHaveBeenCalled()
+        warnSpy.mockRestore()
+    })
+
+    it('should pass validation warnings to the logger', async () => {
+        const logger = { warn: jest.fn() }
+        const api = createTypedApi<OperationMethods, any>(spec, {
+            url: 'http://localhost',
+            requestValidators,
+            requestValidationBehaviour: 'warning',
+            validators: { createUser: z.object({ id: z.number() }) },
+            validationBehaviour: 'warning',
+            logger,
+        })
+        new MockAdapter(api as any).onPost('/user/10').reply(201, {})
+
+        await api.createUser({ id: 10 }, { name: '' })
+
+        expect(logger.warn.mock.calls).toEqual([
+            ['Request validation of createUser failed:', expect.any(z.ZodError)],
+            ['Response validation of createUser failed:', expect.any(z.ZodError)],
+        ])
+    })
+
+    it('should send the parsed output when useParsedRequest is enabled', async () => {
+        const api = createTypedApi<any, any>(spec, {
+            url: 'http://localhost',
+            requestValidators,
+            useParsedRequest: true,
+        })
+        const mock = new MockAdapter(api as any)
+        mock.onPost('/user/10').reply((config) => [201, JSON.parse(config.data)])
+
+        const res = await api.createUser({ id: '10' }, { name: 'Bob' })
+
+        expect(res.ok).toBe(true)
+        expect(res.data).toEqual({ name: 'Bob', role: 'user' })
+    })
+})
+
+describe('Response validators by status', () => {
+    it('should pick the validator matching the status code', async () => {
+        const validators = {
+            createUser: {
+                '201': z.object({ id: z.number(), name: z.string() }),
+                '2XX': z.object({ never: z.string() }),
+            },
+        }
+        const api = createTypedApi<OperationMethods, any>(spec, { url: 'http://localhost', validators })
+        const mock = new MockAdapter(api as any)
+        mock.onPost('/user/10').replyOnce(201, { id: 10, name: 'Bob' }).onPost('/user/10').replyOnce(200, {})
+
+        expect((await api.createUser({ id: 10 }, { name: 'Bob' })).ok).toBe(true)
+        expect((await api.createUser({ id: 10 }, { name: 'Bob' })).problem).toBe(PROBLEM_CODE.VALIDATION_ERROR)
+    })
+
+    it('should validate error bodies with range and default validators', async () => {
+        const validators = {
+            getUser: {
+                '200': z.object({ id: z.number() }),
+                '4XX': z.object({ title: z.string() }),
+                default: z.object({ message: z.string() }),
+            },
+        }
+        const api = createTypedApi<OperationMethods, any>(spec, { url: 'http://localhost', validators })
+        const mock = new MockAdapter(api as any)
+        mock.onGet('/user/1').replyOnce(404, { title: 'Not found' }).onGet('/user/1').replyOnce(500, { title: 'Oops' })
+
+        const notFound = await api.getUser({ id: 1 })
+        expect(notFound.problem).toBe(PROBLEM_CODE.CLIENT_ERROR)
+        expect(notFound.data).toEqual({ title: 'Not found' })
+
+        const serverError = await api.getUser({ id: 1 })
+        expect(serverError.problem).toBe(PROBLEM_CODE.VALIDATION_ERROR)
+        expect(serverError.status).toBe(500)
+    })
+
+    it('should return the parsed data', async () => {
+        const validators = {
+            getUser: z.object({ id: z.number(), createdAt: z.coerce.date(), balance: z.coerce.bigint() }),
+        }
+        const api = createTypedApi<OperationMethods, any>(spec, { url: 'http://localhost', validators })
+        const mock = new MockAdapter(api as any)
+        mock.onGet('/user/1').reply(200, { id: 1, createdAt: '2024-01-01T00:00:00.000Z', balance: '10' })
+
+        const res = await api.getUser({ id: 1 })
+
+        expect(res.ok).toBe(true)
+        expect((res.data as any).createdAt).toBeInstanceOf(Date)
+        expect((res.data as any).balance).toBe(BigInt(10))
+    })
+})
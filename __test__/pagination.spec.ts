@@ -0,0 +1,135 @@
+import MockAdapter from 'axios-mock-adapter'
+import { createTypedApi, getPageItems, OpenAPISpec, parseLinkHeader, PROBLEM_CODE } from '../src'
+
+const listOperation = (operationId: string, extension?: any) => ({
+    get: { operationId, responses: {}, ...(extension ? { 'x-pagination': extension } : {}) },
+})
+
+const spec: OpenAPISpec = {
+    openapi: '3.0.3',
+    info: { title: 'Lists', version: '1' },
+    paths: {
+        '/users': listOperation('listUsers', { type: 'cursor', cursorParam: 'after', cursorPath: 'meta.next' }),
+        '/orders': listOperation('listOrders'),
+        '/events': listOperation('listEvents'),
+        '/repos': listOperation('listRepos'),
+        '/tags': listOperation('listTags'),
+    },
+}
+
+const collect = async <T>(iterable: AsyncIterable<T>) => {
+    const items: T[] = []
+    for await (const item of iterable) items.push(item)
+    return items
+}
+
+const createApi = () => {
+    const api = createTypedApi<any, any>(spec, {
+        url: 'http://localhost',
+        pagination: {
+            listOrders: { type: 'offset', limit: 2, totalPath: 'total' },
+            listEvents: { type: 'link' },
+            listRepos: { type: 'page', sizeParam: 'per_page', maxPages: 2 },
+            listTags: { type: 'next', nextPath: 'next', itemsPath: 'tags' },
+        },
+    })
+    return { api, mock: new MockAdapter(api as any) }
+}
+
+describe('parseLinkHeader', () => {
+    it('should parse links by relation type', () => {
+        expect(
+            parseLinkHeader('<https://api.test/events?page=2>; rel="next", <https://api.test/events?page=5>; rel=last'),
+        ).toEqual({ next: 'https://api.test/events?page=2', last: 'https://api.test/events?page=5' })
+        expect(parseLinkHeader(undefined)).toEqual({})
+    })
+})
+
+describe('getPageItems', () => {
+    it('should find the items of a page', () => {
+        expect(getPageItems([1, 2])).toEqual([1, 2])
+        expect(getPageItems({ results: [1] })).toEqual([1])
+        expect(getPageItems({ page: { entries: [3] } }, 'page.entries')).toEqual([3])
+        expect(getPageItems({ total: 0 })).toEqual([])
+    })
+})
+
+describe('paginate', () => {
+    it('should follow cursors declared in x-pagination', async () => {
+        const { api, mock } = createApi()
+        mock.onGet('/users').reply((config) =>
+            config.params.after === 'c1'
+                ? [200, { items: [{ id: 3 }], meta: { next: null } }]
+                : [200, { items: [{ id: 1 }, { id: 2 }], meta: { next: 'c1' } }],
+        )
+
+        expect(await collect(api.paginate.listUsers({ role: 'admin' }))).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }])
+        expect(mock.history.get.map((request) => request.params)).toEqual([
+            { role: 'admin' },
+            { role: 'admin', after: 'c1' },
+        ])
+    })
+
+    it('should stop when the server repeats a cursor', async () => {
+        const { api, mock } = createApi()
+        mock.onGet('/users').reply((config) => [
+            200,
+            { items: [{ id: config.params.after ?? 0 }], meta: { next: 'c1' } },
+        ])
+
+        expect(await collect(api.paginate.listUsers())).toEqual([{ id: 0 }, { id: 'c1' }])
+        expect(mock.history.get).toHaveLength(2)
+    })
+
+    it('should advance offsets until the total is reached', async () => {
+        const { api, mock } = createApi()
+        mock.onGet('/orders').reply((config) => [
+            200,
+            { data: [config.params.offset ?? 0, (config.params.offset ?? 0) + 1], total: 4 },
+        ])
+
+        expect(await collect(api.paginate.listOrders())).toEqual([0, 1, 2, 3])
+        expect(mock.history.get[1].params).toEqual({ limit: 2, offset: 2 })
+    })
+
+    it('should follow Link headers relative to the request URL', async () => {
+        const { api, mock } = createApi()
+        mock.onGet('/events').replyOnce(200, [1], { link: '</events?page=2>; rel="next"' })
+        mock.onGet('http://localhost/events?page=2').replyOnce(200, [2])
+
+        const pages = await collect(api.paginate.listEvents().pages())
+
+        expect(pages.map((page) => page.data)).toEqual([[1], [2]])
+        expect((pages[1].config as any).operationId).toBe('listEvents')
+    })
+
+    it('should follow next links in the body', async () => {
+        const { api, mock } = createApi()
+        mock.onGet('/tags').replyOnce(200, { tags: ['a'], next: 'http://localhost/tags?cursor=x' })
+        mock.onGet('http://localhost/tags?cursor=x').replyOnce(200, { tags: ['b'], next: null })
+
+        expect(await collect(api.paginate.listTags())).toEqual(['a', 'b'])
+    })
+
+    it('should stop at the page limit', async () => {
+        const { api, mock } = createApi()
+        mock.onGet('/repos').reply((config) => [200, [config.params.page]])
+
+        expect(await collect(api.paginate.listRepos({ per_page: 1 }))).toEqual([1, 2])
+        expect(await collect(api.paginate.listRepos({ per_page: 1 }, { maxPages: 3 }))).toEqual([1, 2, 3])
+    })
+
+    it('should stop at a failing page and return its error response', async () => {
+        const { api, mock } = createApi()
+        mock.onGet('/repos').replyOnce(200, [1]).onGet('/repos').replyOnce(500, { message: 'down' })
+
+        const paginator = api.paginate.listRepos()
+        const iterator = paginator[Symbol.asyncIterator]()
+
+        expect(await iterator.next()).toEqual({ done: false, value: 1 })
+        const last = await iterator.next()
+        expect(last.done).toBe(true)
+        expect(last.value).toMatchObject({ ok: false, problem: PROBLEM_CODE.SERVER_ERROR, data: { message: 'down' } })
+        expect(paginator.error).toBe(last.value)
+    })
+})
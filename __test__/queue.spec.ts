@@ -0,0 +1,95 @@
+import MockAdapter from 'axios-mock-adapter'
+import { createApi, createTypedApi, OpenAPISpec, PROBLEM_CODE } from '../src'
+
+const delayed = (ms: number, response: [number, any]) =>
+    new Promise<[number, any]>((resolve) => setTimeout(() => resolve(response), ms))
+
+const trackConcurrency = (mock: MockAdapter, url: string | RegExp, order: string[] = []) => {
+    const state = { active: 0, max: 0 }
+    mock.onGet(url).reply(async (config) => {
+        order.push(config.url!)
+        state.active++
+        state.max = Math.max(state.max, state.active)
+        const response = await delayed(10, [200, {}])
+        state.active--
+        return response
+    })
+    return state
+}
+
+describe('request queue', () => {
+    it('should limit concurrent requests', async () => {
+        const api = createApi({ url: 'http://localhost', queue: { concurrency: 2 } })
+        const mock = new MockAdapter(api as any)
+        const state = trackConcurrency(mock, /\/items\/\d+/)
+
+        const responses = await Promise.all([1, 2, 3, 4, 5].map((id) => api.get(`/items/${id}`)))
+
+        expect(responses.every((res) => res.ok)).toBe(true)
+        expect(state.max).toBe(2)
+        expect(responses[4].queueTime).toBeGreaterThan(0)
+        expect(responses[0].queueTime).toBe(0)
+    })
+
+    it('should limit requests per host and per operation', async () => {
+        const spec: OpenAPISpec = {
+            openapi: '3.0.3',
+            info: { title: 'Items', version: '1' },
+            paths: {
+                '/items/{id}': { get: { operationId: 'getItem', responses: {} } },
+                '/other/{id}': { get: { operationId: 'getOther', responses: {} } },
+            },
+        }
+        const api = createTypedApi<any, any>(spec, { url: 'http://localhost', queue: { operations: { getItem: 1 } } })
+        const mock = new MockAdapter(api as any)
+        const items = trackConcurrency(mock, /\/items\/\d+/)
+        const other = trackConcurrency(mock, /\/other\/\d+/)
+
+        await Promise.all([api.getItem(1), api.getItem(2), api.getOther(1), api.getOther(2)])
+        expect(items.max).toBe(1)
+        expect(other.max).toBe(2)
+
+        const hostApi = createApi({ url: 'http://localhost', queue: { perHost: 1 } })
+        const hostMock = new MockAdapter(hostApi as any)
+        const local = trackConcurrency(hostMock, /localhost/)
+        const remote = trackConcurrency(hostMock, /example/)
+        await Promise.all([
+            hostApi.get('/a'),
+            hostApi.get('/b'),
+            hostApi.get('http://example.test/a'),
+            hostApi.get('http://example.test/b'),
+        ])
+        expect(local.max + remote.max).toBe(2)
+    })
+
+    it('should start queued requests by priority', async () => {
+        const api = createApi({ url: 'http://localhost', queue: { concurrency: 1 } })
+        const mock = new MockAdapter(api as any)
+        const order: string[] = []
+        trackConcurrency(mock, /.*/, order)
+
+        await Promise.all([
+            api.get('/first'),
+            api.get('/low'),
+            api.get('/high', { priority: 10 } as any),
+            api.get('/normal', { priority: 1 } as any),
+        ])
+
+        expect(order).toEqual(['/first', '/high', '/normal', '/low'])
+    })
+
+    it('should cancel queued requests', async () => {
+        const api = createApi({ url: 'http://localhost', queue: { concurrency: 1 } })
+        const mock = new MockAdapter(api as any)
+        trackConcurrency(mock, /.*/)
+        const controller = new AbortController()
+
+        const first = api.get('/first')
+        const queued = api.get('/queued', { signal: controller.signal })
+        controller.abort()
+
+        expect((await queued).problem).toBe(PROBLEM_CODE.CANCEL_ERROR)
+        expect((await first).ok).toBe(true)
+        expect(mock.history.get.map((request) => request.url)).toEqual(['/first'])
+    })
+})
@@ -0,0 +1,112 @@
+import MockAdapter from 'axios-mock-adapter'
+import { ApiResponse, createApi, getBackoffDelay, parseRetryAfter, PROBLEM_CODE } from '../src'
+
+const retry = { baseDelay: 1, jitter: false }
+
+describe('Retry', () => {
+    it('should retry idempotent requests until they succeed', async () => {
+        const api = createApi({ url: 'http://localhost', retry })
+        const mock = new MockAdapter(api as any)
+        mock.onGet('/').replyOnce(503).onGet('/').replyOnce(502).onGet('/').replyOnce(200, { hello: 'world' })
+
+        const res = await api.get('/')
+
+        expect(res.ok).toBe(true)
+        expect(res.attempts).toBe(3)
+        expect(res.duration).toBeGreaterThanOrEqual(0)
+        expect(mock.history.get).toHaveLength(3)
+    })
+
+    it('should give up after the maximum number of attempts', async () => {
+        const api = createApi({ url: 'http://localhost', retry: { ...retry, attempts: 2 } })
+        const mock = new MockAdapter(api as any)
+        mock.onGet('/').reply(500, { title: 'down' })
+
+        const res = await api.get('/')
+
+        expect(res.ok).toBe(false)
+        expect(res.problem).toBe(PROBLEM_CODE.SERVER_ERROR)
+        expect(res.attempts).toBe(2)
+        expect(res.data).toEqual({ title: 'down' })
+    })
+
+    it('should retry network errors and timeouts', async () => {
+        const api = createApi({ url: 'http://localhost', retry })
+        const mock = new MockAdapter(api as any)
+        mock.onGet('/').timeoutOnce().onGet('/').networkErrorOnce().onGet('/').replyOnce(200)
+
+        const res = await api.get('/')
+
+        expect(res.ok).toBe(true)
+        expect(res.attempts).toBe(3)
+    })
+
+    it('should not retry client errors or non-idempotent methods by default', async () => {
+        const api = createApi({ url: 'http://localhost', retry })
+        const mock = new MockAdapter(api as any)
+        mock.onGet('/').reply(400)
+        mock.onPost('/').reply(503)
+
+        expect((await api.get('/')).attempts).toBe(1)
+        expect((await api.post('/', {})).attempts).toBe(1)
+    })
+
+    it('should retry non-idempotent operations that opt in', async () => {
+        const api = createApi({
+            url: 'http://localhost',
+            retry: { ...retry, operations: { createUser: { idempotent: true }, getUser: false } },
+        })
+        const mock = new MockAdapter(api as any)
+        mock.onPost('/').replyOnce(503).onPost('/').replyOnce(201)
+        mock.onGet('/').reply(503)
+
+        const created = await api.request<any, ApiResponse>({
+            method: 'post',
+            url: '/',
+            operationId: 'createUser',
+        } as any)
+        const fetched = await api.request<any, ApiResponse>({ method: 'get', url: '/', operationId: 'getUser' } as any)
+
+        expect(created.ok).toBe(true)
+        expect(created.attempts).toBe(2)
+        expect(fetched.attempts).toBe(1)
+    })
+
+    it('should honor Retry-After headers', async () => {
+        const api = createApi({ url: 'http://localhost', retry })
+        const mock = new MockAdapter(api as any)
+        mock.onGet('/').replyOnce(429, {}, { 'retry-after': '0.05' }).onGet('/').replyOnce(200)
+
+        const res = await api.get('/')
+
+        expect(res.ok).toBe(true)
+        expect(res.duration).toBeGreaterThanOrEqual(45)
+    })
+
+    it('should stop waiting when the request is cancelled', async () => {
+        const api = createApi({ url: 'http://localhost', retry: { baseDelay: 1000, jitter: false } })
+        const mock = new MockAdapter(api as any)
+        mock.onGet('/').reply(503)
+        const controller = new AbortController()
+        setTimeout(() => controller.abort(), 10)
+
+        const res = await api.get('/', { signal: controller.signal })
+
+        expect(res.problem).toBe(PROBLEM_CODE.CANCEL_ERROR)
+    })
+})
+
+describe('Retry helpers', () => {
+    it('should parse Retry-After seconds and dates', () => {
+        expect(parseRetryAfter('2')).toBe(2000)
+        expect(parseRetryAfter(new Date(10000).toUTCString(), 4000)).toBe(6000)
+        expect(parseRetryAfter('soon')).toBeUndefined()
+    })
+
+    it('should grow delays exponentially up to the maximum', () => {
+        const options = { baseDelay: 100, maxDelay: 500, jitter: false }
+        expect(getBackoffDelay(1, options)).toBe(100)
+        expect(getBackoffDelay(3, options)).toBe(400)
+        expect(getBackoffDelay(5, options)).toBe(500)
+    })
+})
@@ -0,0 +1,186 @@
+import axios from 'axios'
+import MockAdapter from 'axios-mock-adapter'
+import { createTypedApi, ERR_CREDENTIALS, OpenAPISpec, PROBLEM_CODE } from '../src'
+
+const spec: OpenAPISpec = {
+    paths: {
+        '/public': { get: { operationId: 'getPublic', security: [] } },
+        '/me': { get: { operationId: 'getMe' } },
+        '/reports': { get: { operationId: 'getReports', security: [{ apiKey: [] }, { basic: [] }] } },
+        '/session': { get: { operationId: 'getSession', security: [{ session: [] }] } },
+        '/jobs': { get: { operationId: 'getJobs', security: [{ oauth: ['jobs:read'] }] } },
+        '/jobs/all': { get: { operationId: 'getAllJobs', security: [{ oauth: ['jobs:write', 'jobs:read'] }] } },
+        '/jobs/queue': { get: { operationId: 'getQueue', security: [{ oauth: ['jobs:read', 'jobs:write'] }] } },
+    },
+    security: [{ bearer: [] }],
+    components: {
+        securitySchemes: {
+            bearer: { type: 'http', scheme: 'bearer' },
+            basic: { type: 'http', scheme: 'basic' },
+            apiKey: { type: 'apiKey', name: 'api_key', in: 'query' },
+            session: { type: 'apiKey', name: 'sid', in: 'cookie' },
+            oauth: {
+                type: 'oauth2',
+                flows: { clientCredentials: { tokenUrl: 'https://auth.example.com/token', scopes: {} } },
+            },
+        },
+    },
+}
+
+const echo = (config: any): [number, any] => [200, { headers: config.headers, params: config.params }]
+
+describe('Security schemes', () => {
+    it('should only apply credentials to operations that require them', async () => {
+        const api = createTypedApi<any, any>(spec, { url: 'http://localhost', credentials: { bearer: 'token' } })
+        const mock = new MockAdapter(api as any)
+        mock.onAny().reply(echo)
+
+        expect((await api.getMe()).data.headers.Authorization).toBe('Bearer token')
+        expect((await api.getPublic()).data.headers.Authorization).toBeUndefined()
+    })
+
+    it('should resolve async credential providers', async () => {
+        const api = createTypedApi<any, any>(spec, {
+            url: 'http://localhost',
+            credentials: { bearer: async () => 'async-token' },
+        })
+        const mock = new MockAdapter(api as any)
+        mock.onAny().reply(echo)
+
+        expect((await api.getMe()).data.headers.Authorization).toBe('Bearer async-token')
+    })
+
+    it('should use the first requirement that has credentials', async () => {
+        const api = createTypedApi<any, any>(spec, {
+            url: 'http://localhost',
+            credentials: { basic: { username: 'user', password: 'pass' } },
+        })
+        const mock = new MockAdapter(api as any)
+        mock.onAny().reply(echo)
+
+        const res = await api.getReports()
+
+        expect(res.data.headers.Authorization).toBe(`Basic ${btoa('user:pass')}`)
+        expect(res.data.params).toEqual({})
+    })
+
+    it('should send API keys in the query and cookies', async () => {
+        const api = createTypedApi<any, any>(spec, {
+            url: 'http://localhost',
+            credentials: { apiKey: 'key', session: 's 1' },
+        })
+        const mock = new MockAdapter(api as any)
+        mock.onAny().reply(echo)
+
+        expect((await api.getReports()).data.params).toEqual({ api_key: 'key' })
+        expect((await api.getSession()).data.headers.Cookie).toBe('sid=s%201')
+    })
+
+    it('should send cookie API keys once on every retry attempt', async () => {
+        const api = createTypedApi<any, any>(spec, {
+            url: 'http://localhost',
+            credentials: { session: 'secret' },
+            retry: { attempts: 3, baseDelay: 1, jitter: false },
+        })
+        const mock = new MockAdapter(api as any)
+        mock.onGet('/session').replyOnce(503).onGet('/session').replyOnce(503).onGet('/session').reply(echo)
+
+        const res = await api.getSession(undefined, undefined, { headers: { Cookie: 'theme=dark' } })
+
+        expect(mock.history.get).toHaveLength(3)
+        expect(res.data.headers.Cookie).toBe('theme=dark; sid=secret')
+    })
+
+    describe('OAuth2', () => {
+        const authMock = new MockAdapter(axios)
+        afterEach(() => authMock.reset())
+        afterAll(() => authMock.restore())
+
+        it('should fetch a client credentials token and refresh it once on 401', async () => {
+            let issued = 0
+            authMock.onPost('https://auth.example.com/token').reply((config) => {
+                issued++
+                const body = new URLSearchParams(config.data)
+                expect(body.get('grant_type')).toBe('client_credentials')
+                expect(body.get('scope')).toBe('jobs:read')
+                return [200, { access_token: `token-${issued}`, expires_in: 3600 }]
+            })
+            const api = createTypedApi<any, any>(spec, {
+                url: 'http://localhost',
+                credentials: { oauth: { clientId: 'client', clientSecret: 'secret' } },
+            })
+            const mock = new MockAdapter(api as any)
+            mock.onGet('/jobs').reply((config) =>
+                config.headers?.Authorization === 'Bearer token-1' ? [401] : [200, config.headers],
+            )
+
+            const responses = await Promise.all([api.getJobs(), api.getJobs(), api.getJobs()])
+
+            expect(responses.map((r) => r.ok)).toEqual([true, true, true])
+            expect(responses[0].data.Authorization).toBe('Bearer token-2')
+            expect(issued).toBe(2)
+        })
+
+        it('should keep a token per set of scopes', async () => {
+            authMock.onPost('https://auth.example.com/token').reply((config) => {
+                const scope = new URLSearchParams(config.data).get('scope')
+                return [200, { access_token: scope, expires_in: 3600 }]
+            })
+            const api = createTypedApi<any, any>(spec, {
+                url: 'http://localhost',
+                credentials: { oauth: { clientId: 'client' } },
+            })
+            new MockAdapter(api as any).onAny().reply(echo)
+
+            expect((await api.getJobs()).data.headers.Authorization).toBe('Bearer jobs:read')
+            expect((await api.getAllJobs()).data.headers.Authorization).toBe('Bearer jobs:write jobs:read')
+            expect((await api.getQueue()).data.headers.Authorization).toBe('Bearer jobs:write jobs:read')
+            expect((await api.getJobs()).data.headers.Authorization).toBe('Bearer jobs:read')
+            expect(authMock.history.post).toHaveLength(2)
+        })
+
+        it('should resolve failures to apply credentials with a problem', async () => {
+            authMock.onPost('https://auth.example.com/token').networkError()
+            const api = createTypedApi<any, any>(spec, {
+                url: 'http://localhost',
+                credentials: {
+                    oauth: { clientId: 'client' },
+                    bearer: () => {
+                        throw new Error('Not signed in')
+                    },
+                },
+            })
+            const mock = new MockAdapter(api as any)
+            mock.onAny().reply(echo)
+
+            expect(await api.getJobs()).toMatchObject({
+                ok: false,
+                problem: PROBLEM_CODE.NETWORK_ERROR,
+                config: { operationId: 'getJobs' },
+            })
+            expect(await api.getMe()).toMatchObject({
+                ok: false,
+                problem: PROBLEM_CODE.UNKNOWN_ERROR,
+                originalError: { code: ERR_CREDENTIALS, message: 'Not signed in' },
+            })
+            expect(mock.history.get).toHaveLength(0)
+        })
+
+        it('should use the configured token URL and refresh token', async () => {
+            authMock.onPost('https://other.example.com/token').reply((config) => {
+                const body = new URLSearchParams(config.data)
+                return [200, { access_token: `${body.get('grant_type')}:${body.get('refresh_token')}` }]
+            })
+            const api = createTypedApi<any, any>(spec, {
+                url: 'http://localhost',
+                credentials: {
+                    oauth: { clientId: 'client', tokenUrl: 'https://other.example.com/token', refreshToken: 'r1' },
+                },
+            })
+            const mock = new MockAdapter(api as any)
+            mock.onAny().reply(echo)
+
+            expect((await api.getJobs()).data.headers.Authorization).toBe('Bearer refresh_token:r1')
+        })
+    })
+})
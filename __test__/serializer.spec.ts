@@ -0,0 +1,110 @@
+import {
+    serializeCookieParams,
+    serializeHeaderParam,
+    serializePathParam,
+    serializeQueryParams,
+    splitParams,
+    OpenAPIParameter,
+} from '../src'
+
+const roleObject = { role: 'admin', firstName: 'Alex' }
+
+describe('serializeQueryParams', () => {
+    it('should explode arrays with the default form style', () => {
+        expect(serializeQueryParams({ ids: [3, 4, 5] })).toBe('ids=3&ids=4&ids=5')
+    })
+
+    it('should join arrays when explode is false', () => {
+        const parameters: OpenAPIParameter[] = [{ name: 'ids', in: 'query', explode: false }]
+        expect(serializeQueryParams({ ids: [3, 4, 5] }, parameters)).toBe('ids=3,4,5')
+    })
+
+    it('should support space and pipe delimited arrays', () => {
+        const parameters: OpenAPIParameter[] = [
+            { name: 'a', in: 'query', style: 'spaceDelimited', explode: false },
+            { name: 'b', in: 'query', style: 'pipeDelimited', explode: false },
+        ]
+        expect(serializeQueryParams({ a: [1, 2], b: [3, 4] }, parameters)).toBe('a=1%202&b=3%7C4')
+    })
+
+    it('should serialize objects with form style', () => {
+        expect(serializeQueryParams({ id: roleObject })).toBe('role=admin&firstName=Alex')
+        expect(serializeQueryParams({ id: roleObject }, [{ name: 'id', in: 'query', explode: false }])).toBe(
+            'id=role,admin,firstName,Alex',
+        )
+    })
+
+    it('should serialize deepObject parameters', () => {
+        const parameters: OpenAPIParameter[] = [{ name: 'filter', in: 'query', style: 'deepObject', explode: true }]
+        expect(serializeQueryParams({ filter: { role: 'admin', name: { first: 'Alex' } } }, parameters)).toBe(
+            'filter[role]=admin&filter[name][first]=Alex',
+        )
+    })
+
+    it('should keep reserved characters when allowReserved is set', () => {
+        expect(serializeQueryParams({ path: '/a/b' })).toBe('path=%2Fa%2Fb')
+        expect(serializeQueryParams({ path: '/a/b' }, [{ name: 'path', in: 'query', allowReserved: true }])).toBe(
+            'path=/a/b',
+        )
+    })
+
+    it('should JSON encode parameters with content', () => {
+        const parameters: OpenAPIParameter[] = [
+            { name: 'filter', in: 'query', content: { 'application/json': { schema: {} } } },
+        ]
+        expect(serializeQueryParams({ filter: { a: 1 } }, parameters)).toBe(`filter=${encodeURIComponent('{"a":1}')}`)
+    })
+
+    it('should skip undefined and null values', () => {
+        expect(serializeQueryParams({ a: undefined, b: null, c: 1 })).toBe('c=1')
+    })
+})
+
+describe('serializePathParam', () => {
+    it('should serialize with simple style', () => {
+        expect(serializePathParam('id', [3, 4, 5])).toBe('3,4,5')
+        expect(serializePathParam('id', roleObject)).toBe('role,admin,firstName,Alex')
+        expect(serializePathParam('id', roleObject, { name: 'id', in: 'path', explode: true })).toBe(
+            'role=admin,firstName=Alex',
+        )
+    })
+
+    it('should serialize with label style', () => {
+        const parameter: OpenAPIParameter = { name: 'id', in: 'path', style: 'label' }
+        expect(serializePathParam('id', 5, parameter)).toBe('.5')
+        expect(serializePathParam('id', [3, 4, 5], parameter)).toBe('.3,4,5')
+        expect(serializePathParam('id', [3, 4, 5], { ...parameter, explode: true })).toBe('.3.4.5')
+        expect(serializePathParam('id', roleObject, { ...parameter, explode: true })).toBe('.role=admin.firstName=Alex')
+    })
+
+    it('should serialize with matrix style', () => {
+        const parameter: OpenAPIParameter = { name: 'id', in: 'path', style: 'matrix' }
+        expect(serializePathParam('id', 5, parameter)).toBe(';id=5')
+        expect(serializePathParam('id', [3, 4, 5], parameter)).toBe(';id=3,4,5')
+        expect(serializePathParam('id', [3, 4, 5], { ...parameter, explode: true })).toBe(';id=3;id=4;id=5')
+        expect(serializePathParam('id', roleObject, { ...parameter, explode: true })).toBe(';role=admin;firstName=Alex')
+    })
+
+    it('should be used by splitParams for declared path parameters', () => {
+        const { url } = splitParams(
+            '/users/{ids}',
+            { ids: ['a b', 'c'] },
+            { parameters: [{ name: 'ids', in: 'path', style: 'matrix' }] },
+        )
+        expect(url).toBe('/users/;ids=a%20b,c')
+    })
+})
+
+describe('header and cookie parameters', () => {
+    it('should serialize headers with simple style', () => {
+        expect(serializeHeaderParam([1, 2])).toBe('1,2')
+        expect(serializeHeaderParam(roleObject, { name: 'X-Role', in: 'header', explode: true })).toBe(
+            'role=admin,firstName=Alex',
+        )
+    })
+
+    it('should serialize cookies with form style', () => {
+        expect(serializeCookieParams({ session: 'a b', ids: [1, 2] })).toBe('session=a%20b; ids=1; ids=2')
+        expect(serializeCookieParams({ ids: [1, 2] }, [{ name: 'ids', in: 'cookie', explode: false }])).toBe('ids=1,2')
+    })
+})
@@ -0,0 +1,81 @@
+import MockAdapter from 'axios-mock-adapter'
+import { createTypedApi, expandServerUrl, OpenAPISpec, selectServer } from '../src'
+
+const spec: OpenAPISpec = {
+    servers: [
+        {
+            url: 'https://{region}.example.com/{version}',
+            description: 'Production',
+            variables: {
+                region: { default: 'eu', enum: ['eu', 'us'] },
+                version: { default: 'v1' },
+            },
+        },
+        { url: 'http://localhost:{port}', description: 'Local', variables: { port: { default: '8080' } } },
+    ],
+    paths: {
+        '/users': {
+            get: { operationId: 'listUsers' },
+        },
+        '/files': {
+            servers: [{ url: 'https://files.{region}.example.com', variables: { region: { default: 'eu' } } }],
+            get: { operationId: 'listFiles' },
+        },
+    },
+}
+
+describe('expandServerUrl', () => {
+    it('should use defaults and given values', () => {
+        expect(expandServerUrl(spec.servers![0])).toBe('https://eu.example.com/v1')
+        expect(expandServerUrl(spec.servers![0], { region: 'us', version: 'v2' })).toBe('https://us.example.com/v2')
+    })
+
+    it('should reject values outside the declared enum', () => {
+        expect(() => expandServerUrl(spec.servers![0], { region: 'asia' })).toThrow(
+            'Invalid value for server variable region: asia',
+        )
+    })
+
+    it('should select servers by index or description', () => {
+        expect(selectServer(spec.servers, 1).description).toBe('Local')
+        expect(selectServer(spec.servers, 'Production').url).toContain('{region}')
+        expect(() => selectServer(spec.servers, 'Staging')).toThrow('Server not found in spec: Staging')
+    })
+})
+
+describe('createTypedApi servers', () => {
+    it('should default to the first server of the spec', () => {
+        const api = createTypedApi<any, any>(spec, {})
+        expect(api.defaults.baseURL).toBe('https://eu.example.com/v1')
+    })
+
+    it('should keep an explicit url', () => {
+        const api = createTypedApi<any, any>(spec, { url: 'http://localhost' })
+        expect(api.defaults.baseURL).toBe('http://localhost')
+    })
+
+    it('should select a server by description with variables', () => {
+        const api = createTypedApi<any, any>(spec, { server: 'Local', serverVariables: { port: '3000' } })
+        expect(api.defaults.baseURL).toBe('http://localhost:3000')
+    })
+
+    it('should switch servers at runtime', async () => {
+        const api = createTypedApi<any, any>(spec, {})
+        const mock = new MockAdapter(api as any)
+        mock.onGet('/users').reply((config) => [200, config.baseURL])
+
+        api.setServer(0, { region: 'us' })
+
+        expect((await api.listUsers()).data).toBe('https://us.example.com/v1')
+        expect(() => api.setServer(0, { region: 'mars' })).toThrow()
+        expect(api.defaults.baseURL).toBe('https://us.example.com/v1')
+    })
+
+    it('should use operation level servers', async () => {
+        const api = createTypedApi<any, any>(spec, { serverVariables: { region: 'us' } })
+        const mock = new MockAdapter(api as any)
+        mock.onGet('/files').reply((config) => [200, config.baseURL])
+
+        expect((await api.listFiles()).data).toBe('https://files.us.example.com')
+    })
+})
@@ -0,0 +1,267 @@
+import MockAdapter from 'axios-mock-adapter'
+import { MockServer } from 'jest-mock-server'
+import { PassThrough, Readable } from 'stream'
+import { z } from 'zod'
+import {
+    createTypedApi,
+    EventStream,
+    EventStreamError,
+    OpenAPISpec,
+    parseServerSentEvents,
+    PROBLEM_CODE,
+    ServerSentEvent,
+} from '../src'
+
+const spec: OpenAPISpec = {
+    openapi: '3.0.3',
+    info: { title: 'Events', version: '1' },
+    paths: {
+        '/events': {
+            get: {
+                operationId: 'getEvents',
+                responses: { '200': { description: 'Events', content: { 'text/event-stream': {} } } },
+            },
+        },
+        '/items': {
+            get: {
+                operationId: 'getItems',
+                responses: { '200': { description: 'Items', content: { 'application/x-ndjson': {} } } },
+            },
+        },
+        '/log': {
+            get: {
+                operationId: 'getLog',
+                responses: { '200': { description: 'Log', content: { 'text/plain': {} } } },
+            },
+        },
+    },
+}
+
+const collect = async <T>(stream: AsyncIterable<T>) => {
+    const items: T[] = []
+    for await (const item of stream) items.push(item)
+    return items
+}
+
+const take = async <T>(stream: AsyncIterable<T>, count: number) => {
+    const items: T[] = []
+    for await (const item of stream) {
+        items.push(item)
+        if (items.length === count) break
+    }
+    return items
+}
+
+const failingStream = (chunks: string[], code: string) => {
+    const stream = new PassThrough()
+    chunks.forEach((chunk) => stream.write(chunk))
+    setTimeout(() => stream.destroy(Object.assign(new Error('socket hang up'), { code })), 5)
+    return stream
+}
+
+describe('parseServerSentEvents', () => {
+    it('should parse fields, multi-line data and comments', async () => {
+        const onRetry = jest.fn()
+        const chunks = [
+            ': ping\n',
+            'event: update\nid: 1\nretry: 50',
+            '0\ndata: {"a":1}\n\n',
+            'data: a\r\ndata: b\r\n\r\n',
+        ]
+
+        expect(await collect(parseServerSentEvents(Readable.from(chunks), onRetry))).toEqual([
+            { event: 'update', data: { a: 1 }, id: '1', retry: 500 },
+            { event: 'message', data: 'a\nb', id: '1', retry: undefined },
+        ])
+        expect(onRetry).toHaveBeenCalledWith(500)
+    })
+})
+
+describe('streaming operations', () => {
+    it('should stream Server-Sent Events when the spec declares text/event-stream', async () => {
+        const api = createTypedApi<any, any>(spec, { url: 'http://localhost' })
+        const mock = new MockAdapter(api as any)
+        mock.onGet('/events').reply((config): [number, any] => [
+            200,
+            Readable.from([`data: ${config.headers?.Accept}\n\n`, 'event: done\ndata: {"ok":true}\n\n']),
+        ])
+
+        const res = await api.getEvents()
+
+        expect(res.ok).toBe(true)
+        expect((res.data as EventStream).format).toBe('sse')
+        expect(await take<ServerSentEvent>(res.data, 2)).toEqual([
+            { event: 'message', data: 'text/event-stream', id: undefined, retry: undefined },
+            { event: 'done', data: { ok: true }, id: undefined, retry: undefined },
+        ])
+    })
+
+    it('should stream NDJSON responses and explicit streams', async () => {
+        const api = createTypedApi<any, any>(spec, { url: 'http://localhost' })
+        const mock = new MockAdapter(api as any)
+        mock.onGet('/items').reply(200, Readable.from(['{"id":1}\n{"id"', ':2}\n']))
+        mock.onGet('/log').reply(200, Readable.from(['{"line":1}\n']))
+
+        expect(await collect((await api.getItems()).data)).toEqual([{ id: 1 }, { id: 2 }])
+        expect(await collect((await api.getLog({}, undefined, { stream: 'ndjson' })).data)).toEqual([{ line: 1 }])
+    })
+
+    it('should buffer the body of failed streaming requests', async () => {
+        const api = createTypedApi<any, any>(spec, { url: 'http://localhost' })
+        const mock = new MockAdapter(api as any)
+        mock.onGet('/events').reply(404, Readable.from(['{"message":"Not found"}']))
+
+        const res = await api.getEvents()
+
+        expect(res.ok).toBe(false)
+        expect(res.problem).toBe(PROBLEM_CODE.CLIENT_ERROR)
+        expect(res.data).toEqual({ message: 'Not found' })
+    })
+
+    it('should reconnect with Last-Event-ID when the connection is lost', async () => {
+        const api = createTypedApi<any, any>(spec, { url: 'http://localhost' })
+        const mock = new MockAdapter(api as any)
+        const lastEventIds: unknown[] = []
+        mock.onGet('/events')
+            .replyOnce(() => [200, failingStream(['id: 1\ndata: a\n\n', 'retry: 10\n\n'], 'ECONNRESET')])
+            .onGet('/events')
+            .replyOnce((config): [number, any] => {
+                lastEventIds.push(config.headers?.['Last-Event-ID'])
+                return [200, Readable.from(['id: 2\ndata: b\n\n'])]
+            })
+
+        const res = await api.getEvents()
+        const events = await take<ServerSentEvent>(res.data, 2)
+
+        expect(events.map((event) => event.data)).toEqual(['a', 'b'])
+        expect(lastEventIds).toEqual(['1'])
+        expect(res.data.lastEventId).toBe('2')
+    })
+
+    it('should reconnect when the server ends the stream until it is closed', async () => {
+        const api = createTypedApi<any, any>(spec, { url: 'http://localhost' })
+        const mock = new MockAdapter(api as any)
+        const lastEventIds: unknown[] = []
+        let id = 0
+        mock.onGet('/events').reply((config): [number, any] => {
+            lastEventIds.push(config.headers?.['Last-Event-ID'])
+            id++
+            return [200, Readable.from([`retry: 1\nid: ${id}\ndata: ${id}\n\n`])]
+        })
+        const controller = new AbortController()
+        const removeListener = jest.spyOn(controller.signal, 'removeEventListener')
+
+        const res = await api.getEvents({}, undefined, { signal: controller.signal })
+        const events: unknown[] = []
+        for await (const event of res.data) {
+            events.push(event.data)
+            if (events.length === 3) res.data.close()
+        }
+
+        expect(events).toEqual([1, 2, 3])
+        expect(lastEventIds).toEqual([undefined, '1', '2'])
+        expect(removeListener).toHaveBeenCalledWith('abort', expect.any(Function))
+    })
+
+    it('should stop after reconnects in a row bring no event', async () => {
+        const api = createTypedApi<any, any>(spec, { url: 'http://localhost' })
+        const mock = new MockAdapter(api as any)
+        mock.onGet('/events').reply(() => [200, Readable.from([])])
+
+        const res = await api.getEvents({}, undefined, { reconnect: { attempts: 2, delay: 1 } })
+
+        expect(await collect(res.data)).toEqual([])
+        expect(mock.history.get).toHaveLength(3)
+    })
+
+    it('should give up after the configured number of reconnects', async () => {
+        const api = createTypedApi<any, any>(spec, { url: 'http://localhost' })
+        const mock = new MockAdapter(api as any)
+        mock.onGet('/events').reply(() => [200, failingStream([], 'ECONNRESET')])
+
+        const res = await api.getEvents({}, undefined, { reconnect: { attempts: 1, delay: 1 } })
+
+        await expect(collect(res.data)).rejects.toMatchObject({ problem: PROBLEM_CODE.CONNECTION_ERROR })
+        expect(mock.history.get).toHaveLength(2)
+    })
+
+    it('should validate each event', async () => {
+        const api = createTypedApi<any, any>(spec, {
+            url: 'http://localhost',
+            validators: { getEvents: z.object({ id: z.number() }), getItems: z.object({ id: z.coerce.number() }) },
+        })
+        const mock = new MockAdapter(api as any)
+        mock.onGet('/events').reply(200, Readable.from(['data: {"id":1}\n\n', 'data: {"id":"x"}\n\n']))
+        mock.onGet('/items').reply(200, Readable.from(['{"id":"3"}\n']))
+
+        const events: ServerSentEvent[] = []
+        const error = await (async () => {
+            for await (const event of (await api.getEvents()).data) events.push(event)
+        })().catch((e) => e)
+
+        expect(events.map((event) => event.data)).toEqual([{ id: 1 }])
+        expect(error).toBeInstanceOf(EventStreamError)
+        expect(error.problem).toBe(PROBLEM_CODE.VALIDATION_ERROR)
+        expect(error.issues[0].path).toEqual(['id'])
+        expect(await collect((await api.getItems()).data)).toEqual([{ id: 3 }])
+    })
+
+    it('should pass event validation warnings to the logger', async () => {
+        const logger = { warn: jest.fn() }
+        const api = createTypedApi<any, any>(spec, {
+            url: 'http://localhost',
+            validators: { getItems: z.object({ id: z.number() }) },
+            validationBehaviour: 'warning',
+            logger,
+        })
+        new MockAdapter(api as any).onGet('/items').reply(200, Readable.from(['{"id":"x"}\n']))
+
+        expect(await collect((await api.getItems()).data)).toEqual([{ id: 'x' }])
+        expect(logger.warn).toHaveBeenCalledWith('Event validation failed:', expect.any(z.ZodError))
+    })
+})
+
+describe('streaming cancellation', () => {
+    const server = new MockServer()
+
+    beforeAll(async () => await server.start())
+    afterAll(async () => await server.stop())
+    beforeEach(() => server.reset())
+
+    it('should surface aborts as CANCEL_ERROR', async () => {
+        const body = new PassThrough()
+        server.get('/events').mockImplementationOnce((ctx) => {
+            ctx.status = 200
+            ctx.type = 'text/event-stream'
+            ctx.body = body
+            body.write('data: first\n\n')
+        })
+        const api = createTypedApi<any, any>(spec, { url: server.getURL().toString().replace(/\/$/, '') })
+        const controller = new AbortController()
+
+        const res = await api.getEvents({}, undefined, { signal: controller.signal })
+        const events: unknown[] = []
+        const error = await (async () => {
+            for await (const event of res.data) {
+                events.push(event.data)
+                controller.abort()
+            }
+        })().catch((e) => e)
+        body.end()
+
+        expect(events).toEqual(['first'])
+        expect(error).toBeInstanceOf(EventStreamError)
+        expect(error.problem).toBe(PROBLEM_CODE.CANCEL_ERROR)
+    })
+
+    it('should return CANCEL_ERROR when aborted before the response', async () => {
+        const api = createTypedApi<any, any>(spec, { url: server.getURL().toString().replace(/\/$/, '') })
+        const controller = new AbortController()
+        controller.abort()
+
+        const res = await api.getEvents({}, undefined, { signal: controller.signal })
+
+        expect(res.ok).toBe(false)
+        expect(res.problem).toBe(PROBLEM_CODE.CANCEL_ERROR)
+    })
+})
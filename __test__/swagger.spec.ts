@@ -0,0 +1,106 @@
+import MockAdapter from 'axios-mock-adapter'
+import { convertSwaggerSpec, createTypedApi, isSwaggerSpec, SwaggerSpec } from '../src'
+
+const swagger: SwaggerSpec = {
+    swagger: '2.0',
+    info: { title: 'Legacy', version: '1' },
+    host: 'api.example.com',
+    basePath: '/v1',
+    schemes: ['https'],
+    consumes: ['application/json'],
+    produces: ['application/json'],
+    securityDefinitions: {
+        key: { type: 'apiKey', name: 'X-Api-Key', in: 'header' },
+        oauth: { type: 'oauth2', flow: 'application', tokenUrl: 'https://auth.example.com/token', scopes: {} },
+    },
+    parameters: {
+        Tenant: { name: 'X-Tenant', in: 'header', type: 'string' },
+    },
+    paths: {
+        '/pets/{id}': {
+            parameters: [{ name: 'id', in: 'path', required: true, type: 'integer' }],
+            get: {
+                operationId: 'getPet',
+                parameters: [
+                    { $ref: '#/parameters/Tenant' },
+                    { name: 'tags', in: 'query', type: 'array', items: { type: 'string' }, collectionFormat: 'pipes' },
+                ],
+                responses: { '200': { description: 'Pet', schema: { $ref: '#/definitions/Pet' } } },
+            },
+            put: {
+                operationId: 'updatePet',
+                parameters: [{ name: 'body', in: 'body', required: true, schema: { $ref: '#/definitions/Pet' } }],
+                responses: {},
+            },
+            post: {
+                operationId: 'uploadPhoto',
+                consumes: ['multipart/form-data'],
+                parameters: [{ name: 'file', in: 'formData', type: 'file', required: true }],
+                responses: {},
+            },
+        },
+    },
+    definitions: {
+        Pet: { type: 'object', properties: { name: { type: 'string' } } },
+    },
+}
+
+describe('convertSwaggerSpec', () => {
+    const converted = convertSwaggerSpec(swagger)
+    const pathItem = converted.paths!['/pets/{id}']
+
+    it('should detect Swagger documents', () => {
+        expect(isSwaggerSpec(swagger)).toBe(true)
+        expect(isSwaggerSpec(converted)).toBe(false)
+    })
+
+    it('should convert servers, definitions and security definitions', () => {
+        expect(converted.servers).toEqual([{ url: 'https://api.example.com/v1' }])
+        expect(converted.components?.schemas?.Pet).toEqual(swagger.definitions!.Pet)
+        expect(converted.components?.securitySchemes?.key).toEqual({ type: 'apiKey', name: 'X-Api-Key', in: 'header' })
+        expect(converted.components?.securitySchemes?.oauth).toMatchObject({
+            type: 'oauth2',
+            flows: { clientCredentials: { tokenUrl: 'https://auth.example.com/token' } },
+        })
+    })
+
+    it('should convert parameters and collection formats', () => {
+        expect(pathItem.get?.parameters).toEqual([
+            expect.objectContaining({ name: 'id', in: 'path', schema: { type: 'integer' } }),
+            expect.objectContaining({ name: 'X-Tenant', in: 'header', schema: { type: 'string' } }),
+            expect.objectContaining({ name: 'tags', in: 'query', style: 'pipeDelimited', explode: false }),
+        ])
+    })
+
+    it('should convert body and formData parameters to request bodies', () => {
+        expect(pathItem.put?.requestBody).toEqual({
+            required: true,
+            description: undefined,
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } },
+        })
+        expect(pathItem.post?.requestBody).toMatchObject({
+            content: {
+                'multipart/form-data': {
+                    schema: { properties: { file: { type: 'string', format: 'binary' } }, required: ['file'] },
+                },
+            },
+        })
+    })
+
+    it('should convert response schemas to content', () => {
+        expect(pathItem.get?.responses?.['200']).toEqual({
+            description: 'Pet',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } },
+        })
+    })
+
+    it('should build clients from Swagger documents', async () => {
+        const api = createTypedApi<any, any>(swagger, { url: 'http://localhost' })
+        const mock = new MockAdapter(api as any)
+        mock.onGet('/pets/1').reply((config) => [200, { tenant: config.headers?.['X-Tenant'] }])
+
+        const res = await api.getPet({ id: 1, 'X-Tenant': 'acme' })
+
+        expect(res.data).toEqual({ tenant: 'acme' })
+    })
+})
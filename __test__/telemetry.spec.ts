@@ -0,0 +1,205 @@
+import MockAdapter from 'axios-mock-adapter'
+import { z } from 'zod'
+import {
+    createApi,
+    createTypedApi,
+    formatTraceparent,
+    MemoryTelemetryCollector,
+    OpenAPISpec,
+    parseTraceparent,
+    PROBLEM_CODE,
+    REDACTED,
+    SpanLike,
+    TracerLike,
+} from '../src'
+
+const spec: OpenAPISpec = {
+    openapi: '3.0.3',
+    info: { title: 'Users', version: '1' },
+    paths: {
+        '/users/{id}': {
+            get: {
+                operationId: 'getUser',
+                parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }],
+                responses: {},
+            },
+        },
+    },
+}
+
+const createTracer = () => {
+    const spans: {
+        name: string
+        attributes: Record<string, unknown>
+        status?: any
+        events: string[]
+        ended: boolean
+    }[] = []
+    const tracer: TracerLike = {
+        startSpan: (name, options) => {
+            const span = { name, attributes: { ...options?.attributes }, events: [] as string[], ended: false } as any
+            spans.push(span)
+            const handle: SpanLike = {
+                spanContext: () => ({
+                    traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+                    spanId: '00f067aa0ba902b7',
+                    traceFlags: 1,
+                    traceState: { serialize: () => 'vendor=1' },
+                }),
+                setAttribute: (key, value) => (span.attributes[key] = value),
+                addEvent: (event) => span.events.push(event),
+                setStatus: (status) => (span.status = status),
+                end: () => (span.ended = true),
+            }
+            return handle
+        },
+    }
+    return { tracer, spans }
+}
+
+describe('traceparent', () => {
+    it('should format and parse trace context', () => {
+        const trace = { traceId: '4bf92f3577b34da6a3ce929d0e0e4736', spanId: '00f067aa0ba902b7', traceFlags: 1 }
+        expect(formatTraceparent(trace)).toBe('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01')
+        expect(parseTraceparent(formatTraceparent(trace))).toEqual(trace)
+        expect(parseTraceparent('01-abc')).toBeUndefined()
+    })
+
+    it('should create trace ids without a global crypto', async () => {
+        const descriptor = Object.getOwnPropertyDescriptor(globalThis, 'crypto')
+        Object.defineProperty(globalThis, 'crypto', { value: undefined, configurable: true })
+        try {
+            const collector = new MemoryTelemetryCollector()
+            const api = createApi({ url: 'http://localhost', telemetry: { onEvent: collector.collect } })
+            new MockAdapter(api as any).onGet('/').reply(200)
+
+            await api.get('/')
+
+            expect(collector.events[0].traceId).toMatch(/^[0-9a-f]{32}$/)
+            expect(collector.events[0].spanId).toMatch(/^[0-9a-f]{16}$/)
+        } finally {
+            Object.defineProperty(globalThis, 'crypto', descriptor!)
+        }
+    })
+})
+
+describe('telemetry', () => {
+    it('should emit start, retry and end events with trace headers', async () => {
+        const collector = new MemoryTelemetryCollector()
+        const api = createTypedApi<any, any>(spec, {
+            url: 'http://localhost',
+            headers: { Authorization: 'Bearer secret' },
+            retry: { baseDelay: 1, jitter: false },
+            telemetry: { onEvent: collector.collect, redactQueryParams: ['token'] },
+        })
+        const mock = new MockAdapter(api as any)
+        mock.onGet('/users/1').replyOnce(503).onGet('/users/1').reply(200, { id: 1 })
+
+        await api.getUser({ id: 1 }, undefined, { params: { token: 'abc', page: 2 } })
+
+        expect(collector.events.map((event) => event.type)).toEqual(['start', 'retry', 'end'])
+        const [start, retry, end] = collector.events
+        expect(start).toMatchObject({
+            operationId: 'getUser',
+            method: 'get',
+            path: '/users/{id}',
+            url: `http://localhost/users/1?page=2&token=${encodeURIComponent(REDACTED)}`,
+            headers: expect.objectContaining({ authorization: REDACTED }),
+        })
+        expect(retry).toMatchObject({ attempt: 2, traceId: start.traceId })
+        expect(end).toMatchObject({ status: 200, problem: null, attempt: 2, spanId: start.spanId })
+        expect(end.duration).toBeGreaterThanOrEqual(0)
+
+        const sent = mock.history.get.map((request) => parseTraceparent(request.headers?.traceparent))
+        expect(sent).toEqual([
+            { traceId: start.traceId, spanId: start.spanId, traceFlags: 1 },
+            { traceId: start.traceId, spanId: start.spanId, traceFlags: 1 },
+        ])
+    })
+
+    it('should continue the trace of a traceparent header and report problems', async () => {
+        const collector = new MemoryTelemetryCollector()
+        const api = createApi({ url: 'http://localhost', telemetry: { onEvent: collector.collect, propagate: false } })
+        const mock = new MockAdapter(api as any)
+        mock.onGet('/missing').reply(404)
+        mock.onGet('/down').networkError()
+        const traceparent = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-00'
+
+        await api.get('/missing', { headers: { traceparent } })
+        await api.get('/down')
+
+        expect(collector.ofType('end')).toMatchObject([
+            { path: '/missing', status: 404, problem: PROBLEM_CODE.CLIENT_ERROR },
+            { path: '/down', status: undefined, problem: PROBLEM_CODE.NETWORK_ERROR },
+        ])
+        const [missing] = collector.ofType('start')
+        expect(missing.traceId).toBe('4bf92f3577b34da6a3ce929d0e0e4736')
+        expect(missing.spanId).not.toBe('00f067aa0ba902b7')
+        expect(mock.history.get[0].headers?.traceparent).toBe(traceparent)
+        expect(mock.history.get[1].headers?.traceparent).toBeUndefined()
+    })
+
+    it('should report validation failures', async () => {
+        const collector = new MemoryTelemetryCollector()
+        const api = createTypedApi<any, any>(spec, {
+            url: 'http://localhost',
+            validators: { getUser: z.object({ id: z.number() }) },
+            telemetry: { onEvent: collector.collect },
+        })
+        new MockAdapter(api as any).onGet('/users/1').reply(200, { id: 'one' })
+
+        await api.getUser({ id: 1 })
+
+        const [failure] = collector.ofType('validationFailure')
+        expect(failure).toMatchObject({
+            operationId: 'getUser',
+            path: '/users/{id}',
+            status: 200,
+            problem: PROBLEM_CODE.VALIDATION_ERROR,
+            traceId: collector.events[0].traceId,
+        })
+        expect(failure.issues).toHaveLength(1)
+    })
+
+    it('should record spans and metrics through OpenTelemetry-compatible adapters', async () => {
+        const { tracer, spans } = createTracer()
+        const durations: { value: number; attributes?: Record<string, unknown> }[] = []
+        const meter = {
+            createHistogram: () => ({
+                record: (value: number, attributes?: Record<string, unknown>) => durations.push({ value, attributes }),
+            }),
+        }
+        const api = createTypedApi<any, any>(spec, { url: 'http://localhost', telemetry: { tracer, meter } })
+        const mock = new MockAdapter(api as any)
+        mock.onGet('/users/1').reply(500)
+
+        await api.getUser({ id: 1 })
+
+        expect(spans).toMatchObject([
+            {
+                name: 'getUser',
+                attributes: {
+                    'http.request.method': 'GET',
+                    'url.template': '/users/{id}',
+                    'http.response.status_code': 500,
+                    'error.type': PROBLEM_CODE.SERVER_ERROR,
+                },
+                status: { code: 2 },
+                ended: true,
+            },
+        ])
+        expect(mock.history.get[0].headers).toMatchObject({
+            traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01',
+            tracestate: 'vendor=1',
+        })
+        expect(durations).toMatchObject([
+            {
+                attributes: {
+                    'api.operation.id': 'getUser',
+                    'http.response.status_code': 500,
+                    'error.type': 'SERVER_ERROR',
+                },
+            },
+        ])
+    })
+})
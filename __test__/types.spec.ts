@@ -1,5 +1,5 @@
 import { AxiosResponse } from "axios"
-import { AdaptedOperationMethods, ApiResponse } from "../src"
+import { AdaptedOperationMethods, ApiOkResponse, ApiResponse, OperationMetadata } from "../src"
 
 type Original = {
     fetchUser: (id: string) => Promise<AxiosResponse<{ name: string }>>
@@ -23,6 +23,59 @@ const t2: Test2 = true
 type Test3 = Adapted['syncFn'] extends (x: number) => string ? true : false
 const t3: Test3 = true
 
+type Errors = {
+    fetchUser: { title: string; detail?: string }
+}
+
+type AdaptedWithErrors = AdaptedOperationMethods<Original, Errors>
+
+// Expect: Promise<ApiResponse<{ name: string }, { title: string; detail?: string }>>
+type Test4 = AdaptedWithErrors['fetchUser'] extends (
+    ...args: any[]
+) => Promise<ApiResponse<{ name: string }, { title: string; detail?: string }>>
+    ? true
+    : false
+const t4: Test4 = true
+
+// Expect: error body narrows to the declared type
+type FetchUserResponse = Awaited<ReturnType<AdaptedWithErrors['fetchUser']>>
+type Test5 = Extract<FetchUserResponse, { ok: false }>['data'] extends { title: string } | undefined ? true : false
+const t5: Test5 = true
+
+type Namespaced = AdaptedOperationMethods<
+    { users: { fetchUser: Original['fetchUser'] } },
+    { users: { fetchUser: { title: string } } }
+>
+
+// Expect: methods in tag namespaces are adapted too
+type Test6 = Namespaced['users']['fetchUser'] extends (
+    ...args: any[]
+) => Promise<ApiResponse<{ name: string }, { title: string }>>
+    ? true
+    : false
+const t6: Test6 = true
+
+// Expect: adapted methods expose their metadata
+type Test7 = Adapted['fetchUser']['metadata'] extends OperationMetadata ? true : false
+const t7: Test7 = true
+
+// Expect: the data mode resolves with the body
+type Test8 = AdaptedOperationMethods<Original, {}, 'data'>['fetchUser'] extends (
+    ...args: any[]
+) => Promise<{ name: string }>
+    ? true
+    : false
+const t8: Test8 = true
+
+// Expect: the throw mode resolves with ok responses only
+type ThrowResponse = Awaited<ReturnType<AdaptedOperationMethods<Original, {}, 'throw'>['fetchPosts']>>
+type Test9 = ThrowResponse extends ApiOkResponse<{ title: string }[]>
+    ? ThrowResponse['ok'] extends true
+        ? true
+        : false
+    : false
+const t9: Test9 = true
+
 test('Placeholder for type tests', () => {
     expect(1).toBe(1)
 })
\ No newline at end of file
@@ -0,0 +1,347 @@
+import { createHmac } from 'crypto'
+import { ClientRequest, createServer, request, Server } from 'http'
+import { AddressInfo } from 'net'
+import { z } from 'zod'
+import {
+    createExpressHandler,
+    createFastifyHandler,
+    createHmacVerifier,
+    createNodeHandler,
+    createWebhookReceiver,
+    getWebhookRoutes,
+    OpenAPISchema,
+    OpenAPISpec,
+    WebhookNamingOptions,
+} from '../src'
+
+const petSchema: OpenAPISchema = { type: 'object', required: ['name'], properties: { name: { type: 'string' } } }
+
+const spec: OpenAPISpec = {
+    openapi: '3.1.0',
+    info: { title: 'Pets', version: '1' },
+    paths: {
+        '/subscriptions': {
+            post: {
+                operationId: 'subscribe',
+                responses: {},
+                callbacks: {
+                    onEvent: {
+                        '{$request.body#/callbackUrl}/events/{$request.body#/id}': {
+                            post: { requestBody: { $ref: '#/components/requestBodies/Event' }, responses: {} },
+                        },
+                    },
+                    onStatus: { '{$request.body#/statusUrl}': { put: { responses: {} } } },
+                },
+            },
+        },
+    },
+    webhooks: {
+        newPet: {
+            post: {
+                requestBody: { content: { 'application/json': { schema: petSchema } } },
+                responses: {},
+            },
+        },
+    },
+    components: {
+        requestBodies: {
+            Event: { content: { 'application/json': { schema: { type: 'object' } } } },
+        },
+    },
+}
+
+type Payloads = {
+    newPet: { name: string }
+    'subscribe.onEvent': { type: string }
+    'subscribe.onStatus': { status: string }
+}
+
+const json = (body: unknown) => ({
+    headers: { 'content-type': 'application/json' },
+    rawBody: JSON.stringify(body),
+})
+
+describe('getWebhookRoutes', () => {
+    it('should list webhooks and callbacks', () => {
+        expect(
+            getWebhookRoutes(spec).map(({ key, kind, method, expression }) => [key, kind, method, expression]),
+        ).toEqual([
+            ['newPet', 'webhook', 'post', undefined],
+            ['subscribe.onEvent', 'callback', 'post', '{$request.body#/callbackUrl}/events/{$request.body#/id}'],
+            ['subscribe.onStatus', 'callback', 'put', '{$request.body#/statusUrl}'],
+        ])
+        expect(getWebhookRoutes(spec)[1].requestBody?.content).toHaveProperty('application/json')
+    })
+
+    it('should key callbacks by the method names of the client', () => {
+        const tagged: OpenAPISpec = {
+            ...spec,
+            paths: { '/subscriptions': { post: { ...spec.paths!['/subscriptions'].post!, tags: ['Events'] } } },
+        }
+        const keys = (options: WebhookNamingOptions) => getWebhookRoutes(tagged, options).map((route) => route.key)
+
+        expect(keys({ operationName: (path, method) => `${method}Subscription` })).toEqual([
+            'newPet',
+            'postSubscription.onEvent',
+            'postSubscription.onStatus',
+        ])
+        expect(keys({ namespaceByTag: true })).toEqual([
+            'newPet',
+            'events.subscribe.onEvent',
+            'events.subscribe.onStatus',
+        ])
+    })
+})
+
+describe('createWebhookReceiver', () => {
+    it('should route by webhook name and callback expression', async () => {
+        const received: string[] = []
+        const receiver = createWebhookReceiver<Payloads>(spec, {
+            handlers: {
+                newPet: ({ payload }) => {
+                    received.push(`pet ${payload.name}`)
+                },
+                'subscribe.onEvent': ({ payload, route }) => {
+                    received.push(`${route.name} ${payload.type}`)
+                    return { status: 200, body: { received: true } }
+                },
+                'subscribe.onStatus': ({ payload }) => {
+                    received.push(`status ${payload.status}`)
+                },
+            },
+        })
+
+        expect(await receiver.handle({ method: 'POST', url: '/hooks/newPet', ...json({ name: 'Tom' }) })).toEqual({
+            status: 204,
+        })
+        expect(
+            await receiver.handle({ method: 'POST', url: '/cb/events/42?x=1', ...json({ type: 'created' }) }),
+        ).toEqual({ status: 200, body: { received: true } })
+        expect(await receiver.handle({ method: 'PUT', url: '/onStatus', ...json({ status: 'up' }) })).toEqual({
+            status: 204,
+        })
+        expect(await receiver.handle({ method: 'GET', url: '/hooks/newPet', headers: {} })).toMatchObject({
+            status: 404,
+        })
+        expect(await receiver.handle({ method: 'POST', url: '/hooks/other', headers: {} })).toMatchObject({
+            status: 404,
+        })
+        expect(received).toEqual(['pet Tom', 'onEvent created', 'status up'])
+    })
+
+    it('should validate payloads and report handler errors', async () => {
+        const onError = jest.fn()
+        const receiver = createWebhookReceiver<Payloads>(spec, {
+            handlers: {
+                newPet: ({ payload }) => ({ status: 200, body: payload }),
+                'subscribe.onEvent': () => {
+                    throw new Error('Broken')
+                },
+            },
+            validators: { newPet: z.object({ name: z.string().transform((name) => name.toUpperCase()) }) },
+            onError,
+        })
+
+        expect(await receiver.handle({ method: 'POST', url: '/newPet', ...json({ name: 'tom' }) })).toEqual({
+            status: 200,
+            body: { name: 'TOM' },
+        })
+        expect(await receiver.handle({ method: 'POST', url: '/newPet', ...json({ name: 1 }) })).toMatchObject({
+            status: 422,
+            body: { issues: [{ path: ['name'] }] },
+        })
+        expect(
+            await receiver.handle({
+                method: 'POST',
+                url: '/newPet',
+                headers: { 'content-type': 'application/json' },
+                rawBody: '{',
+            }),
+        ).toMatchObject({ status: 400 })
+        expect(await receiver.handle({ method: 'POST', url: '/events/1', body: {}, headers: {} })).toMatchObject({
+            status: 500,
+        })
+        expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'Broken' }), expect.anything())
+    })
+
+    it('should pass validation warnings to the logger', async () => {
+        const logger = { warn: jest.fn() }
+        const receiver = createWebhookReceiver<Payloads>(spec, {
+            handlers: { newPet: ({ payload }) => ({ status: 200, body: payload }) },
+            validators: { newPet: z.object({ name: z.string() }) },
+            validationBehaviour: 'warning',
+            logger,
+        })
+
+        expect(await receiver.handle({ method: 'POST', url: '/newPet', ...json({ name: 1 }) })).toEqual({
+            status: 200,
+            body: { name: 1 },
+        })
+        expect(logger.warn).toHaveBeenCalledWith('Webhook validation of newPet failed:', expect.any(z.ZodError))
+    })
+
+    it('should verify HMAC signatures and resolve keys from headers', async () => {
+        const body = JSON.stringify({ name: 'Tom' })
+        const signature = `sha256=${createHmac('sha256', 'secret').update(body).digest('hex')}`
+        const receiver = createWebhookReceiver<Payloads>(spec, {
+            handlers: { newPet: () => undefined },
+            verify: createHmacVerifier({ header: 'X-Hub-Signature-256', secret: 'secret', prefix: 'sha256=' }),
+            resolveKey: (request) => request.headers['x-event'] as string,
+        })
+        const request = { method: 'POST', url: '/webhooks', rawBody: body }
+
+        expect(
+            await receiver.handle({ ...request, headers: { 'x-event': 'newPet', 'x-hub-signature-256': signature } }),
+        ).toEqual({ status: 204 })
+        expect(
+            await receiver.handle({ ...request, headers: { 'x-event': 'newPet', 'x-hub-signature-256': 'sha256=00' } }),
+        ).toMatchObject({ status: 401 })
+        expect(await receiver.handle({ ...request, headers: { 'x-hub-signature-256': signature } })).toMatchObject({
+            status: 404,
+        })
+    })
+
+    it('should verify HMAC signatures without a global crypto', async () => {
+        const body = JSON.stringify({ name: 'Tom' })
+        const signature = createHmac('sha256', 'secret').update(body).digest('hex')
+        const descriptor = Object.getOwnPropertyDescriptor(globalThis, 'crypto')
+        Object.defineProperty(globalThis, 'crypto', { value: undefined, configurable: true })
+        try {
+            const verify = createHmacVerifier({ header: 'X-Signature', secret: 'secret' })
+            const receiver = createWebhookReceiver<Payloads>(spec, { handlers: { newPet: () => undefined }, verify })
+            const request = { method: 'POST', url: '/newPet', rawBody: body }
+
+            expect(await receiver.handle({ ...request, headers: { 'x-signature': signature } })).toEqual({
+                status: 204,
+            })
+            expect(await receiver.handle({ ...request, headers: { 'x-signature': '00' } })).toMatchObject({
+                status: 401,
+            })
+        } finally {
+            Object.defineProperty(globalThis, 'crypto', descriptor!)
+        }
+    })
+
+    it('should answer errors of key resolvers and verifiers', async () => {
+        const onError = jest.fn()
+        const failing = createWebhookReceiver<Payloads>(spec, {
+            handlers: { newPet: () => undefined },
+            resolveKey: () => {
+                throw new Error('No event type')
+            },
+            onError,
+        })
+        const misconfigured = createWebhookReceiver<Payloads>(spec, {
+            handlers: { newPet: () => undefined },
+            verify: () => Promise.reject(new Error('No secret')),
+            onError,
+        })
+        const unverifiable = createWebhookReceiver<Payloads>(spec, {
+            handlers: { newPet: () => undefined },
+            verify: createHmacVerifier({ header: 'X-Signature', secret: 'secret' }),
+            onError,
+        })
+        const request = { method: 'POST', url: '/newPet', ...json({ name: 'Tom' }) }
+
+        expect(await failing.handle(request)).toMatchObject({ status: 500 })
+        expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'No event type' }))
+        expect(await misconfigured.handle(request)).toMatchObject({ status: 500 })
+        expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'No secret' }))
+        expect(
+            await unverifiable.handle({ ...request, headers: { ...request.headers, 'x-signature': 'not hex' } }),
+        ).toMatchObject({ status: 400, body: { message: 'Unreadable signature' } })
+        expect(onError).toHaveBeenCalledTimes(2)
+    })
+
+    it('should reject handlers for routes the spec does not declare', () => {
+        expect(() => createWebhookReceiver<any>(spec, { handlers: { oldPet: () => undefined } })).toThrow(
+            'The spec declares no webhook or callback oldPet',
+        )
+    })
+})
+
+describe('adapters', () => {
+    const receiver = createWebhookReceiver<Payloads>(spec, {
+        handlers: { newPet: ({ payload }) => ({ status: 201, body: { created: payload.name } }) },
+    })
+
+    it('should serve a Node http server', async () => {
+        const server: Server = createServer(createNodeHandler(receiver))
+        await new Promise<void>((resolve) => server.listen(0, resolve))
+        try {
+            const { port } = server.address() as AddressInfo
+            const res = await fetch(`http://localhost:${port}/hooks/newPet`, {
+                method: 'POST',
+                headers: { 'content-type': 'application/json' },
+                body: JSON.stringify({ name: 'Tom' }),
+            })
+            expect(res.status).toBe(201)
+            expect(await res.json()).toEqual({ created: 'Tom' })
+        } finally {
+            await new Promise((resolve) => server.close(resolve))
+        }
+    })
+
+    it('should answer bodies that cannot be read', async () => {
+        let handled!: Promise<void>
+        let client!: ClientRequest
+        const aborting: Server = createServer((req, res) => {
+            handled = createNodeHandler(receiver)(req, res)
+            client.destroy()
+        })
+        await new Promise<void>((resolve) => aborting.listen(0, resolve))
+        try {
+            const { port } = aborting.address() as AddressInfo
+            const received = new Promise((resolve) => aborting.on('request', resolve))
+            client = request({ port, method: 'POST', path: '/hooks/newPet', headers: { 'content-length': 100 } })
+            client.on('error', () => undefined)
+            client.write('{"na')
+            await received
+            await expect(handled).resolves.toBeUndefined()
+        } finally {
+            await new Promise((resolve) => aborting.close(resolve))
+        }
+
+        const server: Server = createServer(createNodeHandler(receiver, { limit: 8 }))
+        await new Promise<void>((resolve) => server.listen(0, resolve))
+        try {
+            const { port } = server.address() as AddressInfo
+            const oversized = await fetch(`http://localhost:${port}/hooks/newPet`, {
+                method: 'POST',
+                body: JSON.stringify({ name: 'Tom' }),
+            })
+            expect(oversized.status).toBe(400)
+        } finally {
+            await new Promise((resolve) => server.close(resolve))
+        }
+    })
+
+    it('should adapt Express and Fastify requests', async () => {
+        const sent: unknown[] = []
+        const res = { status: jest.fn(), set: jest.fn(), send: jest.fn((body) => sent.push(body)) }
+        res.status.mockReturnValue(res)
+        res.set.mockReturnValue(res)
+        const req = {
+            method: 'POST',
+            url: '/newPet',
+            originalUrl: '/hooks/newPet',
+            headers: {},
+            body: { name: 'Tom' },
+            async *[Symbol.asyncIterator]() {},
+        }
+        await createExpressHandler(receiver)(req, res)
+        expect(res.status).toHaveBeenCalledWith(201)
+        expect(res.set).toHaveBeenCalledWith({ 'content-type': 'application/json' })
+
+        const reply = { code: jest.fn(), headers: jest.fn(), send: jest.fn() }
+        reply.code.mockReturnValue(reply)
+        reply.headers.mockReturnValue(reply)
+        await createFastifyHandler(receiver)(
+            { method: 'POST', url: '/hooks/newPet', headers: {}, body: Buffer.from('{"name":"Kit"}') },
+            reply,
+        )
+        expect(reply.code).toHaveBeenCalledWith(201)
+        expect(reply.send).toHaveBeenCalledWith('{"created":"Kit"}')
+        expect(sent).toEqual(['{"created":"Tom"}'])
+    })
+})
@@ -0,0 +1,165 @@
+import {
+    OpenAPIEncoding,
+    OpenAPIMediaType,
+    OpenAPIParameter,
+    OpenAPIRequestBody,
+    OpenAPISpec,
+    resolveRef,
+} from './document'
+import { serializeQueryParams } from './serializer'
+
+export interface EncodedBody {
+    data: any
+    contentType?: string
+}
+
+const JSON_TYPE = /^application\/(.+\+)?json/i
+const MULTIPART_TYPE = /^multipart\//i
+const URLENCODED_TYPE = /^application\/x-www-form-urlencoded/i
+
+const isBlob = (value: any): value is Blob => typeof Blob !== 'undefined' && value instanceof Blob
+
+const isStream = (value: any) =>
+    !!value && typeof value === 'object' && (typeof value.pipe === 'function' || typeof value.getReader === 'function')
+
+/** Files, Blobs, Buffers, ArrayBuffers and streams are sent as binary data. */
+export const isBinary = (value: any): boolean =>
+    isBlob(value) || value instanceof ArrayBuffer || ArrayBuffer.isView(value) || isStream(value)
+
+const isPlainObject = (value: any) =>
+    typeof value === 'object' && value !== null && !Array.isArray(value) && !isBinary(value) && !(value instanceof Date)
+
+const isCompatible = (contentType: string, data: any): boolean => {
+    if (typeof FormData !== 'undefined' && data instanceof FormData) return MULTIPART_TYPE.test(contentType)
+    if (data instanceof URLSearchParams) return URLENCODED_TYPE.test(contentType)
+    if (isBinary(data)) return !JSON_TYPE.test(contentType) && !URLENCODED_TYPE.test(contentType)
+    if (isPlainObject(data) || Array.isArray(data)) {
+        return JSON_TYPE.test(contentType) || MULTIPART_TYPE.test(contentType) || URLENCODED_TYPE.test(contentType)
+    }
+    return true
+}
+
+/**
+ * Picks the declared request content type that fits the data, in declaration order.
+ */
+export const selectRequestContentType = (
+    requestBody: OpenAPIRequestBody | undefined,
+    data: any,
+): string | undefined => {
+    const contentTypes = Object.keys(requestBody?.content ?? {})
+    return contentTypes.find((type) => isCompatible(type, data)) ?? contentTypes[0]
+}
+
+const readStream = async (stream: any): Promise<Uint8Array[]> => {
+    const encoder = new TextEncoder()
+    const chunks: Uint8Array[] = []
+    if (typeof stream.getReader === 'function') {
+        const reader = stream.getReader()
+        for (let result = await reader.read(); !result.done; result = await reader.read()) chunks.push(result.value)
+        return chunks
+    }
+    for await (const chunk of stream) chunks.push(typeof chunk === 'string' ? encoder.encode(chunk) : chunk)
+    return chunks
+}
+
+const toBlobParts = async (value: any): Promise<BlobPart[]> => {
+    if (isStream(value)) return readStream(value) as Promise<BlobPart[]>
+    return [value]
+}
+
+const getFilename = (value: any, name: string): string => {
+    if (typeof value?.name === 'string' && value.name) return value.name
+    if (typeof value?.path === 'string') return value.path.split(/[\\/]/).pop()
+    return name
+}
+
+const quote = (value: string) => value.replace(/"/g, '%22').replace(/\r?\n/g, ' ')
+
+const getEncodingHeaders = (spec: OpenAPISpec, encoding?: OpenAPIEncoding): Record<string, string> => {
+    const headers: Record<string, string> = {}
+    for (const [name, header] of Object.entries(encoding?.headers ?? {})) {
+        if (name.toLowerCase() === 'content-type') continue
+        const resolved = resolveRef(spec, header)
+        const value = resolved.example ?? resolved.schema?.default ?? resolved.schema?.example
+        if (value !== undefined) headers[name] = String(value)
+    }
+    return headers
+}
+
+const encodeMultipart = async (
+    spec: OpenAPISpec,
+    data: Record<string, any>,
+    mediaType: OpenAPIMediaType | undefined,
+): Promise<EncodedBody> => {
+    const boundary = `----openapi-axios-client-${Math.random().toString(16).slice(2)}${Date.now().toString(16)}`
+    const parts: BlobPart[] = []
+
+    const addPart = async (name: string, value: any) => {
+        const encoding = mediaType?.encoding?.[name]
+        const headers: Record<string, string> = getEncodingHeaders(spec, encoding)
+        let body: BlobPart[]
+        let disposition = `form-data; name="${quote(name)}"`
+        let contentType = encoding?.contentType?.split(',')[0].trim()
+
+        if (isBinary(value)) {
+            disposition += `; filename="${quote(getFilename(value, name))}"`
+            contentType = contentType ?? (isBlob(value) && value.type ? value.type : 'application/octet-stream')
+            body = await toBlobParts(value)
+        } else if (isPlainObject(value) || Array.isArray(value)) {
+            contentType = contentType ?? 'application/json'
+            body = [JSON.stringify(value)]
+        } else {
+            body = [value instanceof Date ? value.toISOString() : String(value)]
+        }
+
+        const lines = [`Content-Disposition: ${disposition}`]
+        if (contentType) lines.push(`Content-Type: ${contentType}`)
+        for (const [header, headerValue] of Object.entries(headers)) lines.push(`${header}: ${headerValue}`)
+        parts.push(`--${boundary}\r\n${lines.join('\r\n')}\r\n\r\n`, ...body, '\r\n')
+    }
+
+    for (const [name, value] of Object.entries(data)) {
+        if (value === undefined) continue
+        const encoding = mediaType?.encoding?.[name]
+        const repeat = Array.isArray(value) && (!encoding?.contentType || value.some(isBinary))
+        for (const item of repeat ? value : [value]) await addPart(name, item)
+    }
+    parts.push(`--${boundary}--\r\n`)
+
+    const type = `multipart/form-data; boundary=${boundary}`
+    return { data: new Blob(parts, { type }), contentType: type }
+}
+
+const encodeUrlEncoded = (data: Record<string, any>, mediaType: OpenAPIMediaType | undefined): EncodedBody => {
+    const parameters: OpenAPIParameter[] = Object.entries(mediaType?.encoding ?? {}).map(([name, encoding]) => ({
+        name,
+        in: 'query',
+        style: encoding.style,
+        explode: encoding.explode,
+        allowReserved: encoding.allowReserved,
+        ...(encoding.contentType && JSON_TYPE.test(encoding.contentType)
+            ? { content: { [encoding.contentType]: {} } }
+            : {}),
+    }))
+    return { data: serializeQueryParams(data, parameters), contentType: 'application/x-www-form-urlencoded' }
+}
+
+/**
+ * Encodes a request body for the given content type. Plain objects are encoded as multipart or urlencoded
+ * bodies following the per-property `encoding` of the media type; everything else is passed through.
+ */
+export const encodeRequestBody = async (
+    spec: OpenAPISpec,
+    requestBody: OpenAPIRequestBody | undefined,
+    data: any,
+    contentType = selectRequestContentType(requestBody, data),
+): Promise<EncodedBody> => {
+    if (data === undefined || !contentType) return { data }
+    const mediaType = requestBody?.content[contentType]
+
+    if (isPlainObject(data) && MULTIPART_TYPE.test(contentType)) return encodeMultipart(spec, data, mediaType)
+    if (isPlainObject(data) && URLENCODED_TYPE.test(contentType)) return encodeUrlEncoded(data, mediaType)
+    // FormData sets its own boundary
+    if (typeof FormData !== 'undefined' && data instanceof FormData) return { data }
+    return { data, contentType }
+}
@@ -0,0 +1,243 @@
+import { AxiosError, AxiosResponse } from 'axios'
+import { getRequestUrl } from './cache'
+import {
+    ApiInstance,
+    ApiRequestConfig,
+    getProblemFromError,
+    PROBLEM_CODE,
+    TransportLayer,
+    useTransport,
+} from './wrapper'
+
+export type CircuitState = 'closed' | 'open' | 'halfOpen'
+
+export interface CircuitBreakerOptions {
+    /** Share of failed calls in the window that opens the circuit, between 0 and 1. Defaults to 0.5. */
+    failureThreshold?: number
+    /** Calls needed in the window before the failure rate counts. Defaults to 10. */
+    minimumCalls?: number
+    /** Length of the rolling window in milliseconds. Defaults to 60000. */
+    window?: number
+    /** Milliseconds the circuit stays open before trial calls are let through. Defaults to 30000. */
+    openDuration?: number
+    /** Trial calls let through while half-open. The circuit closes when all of them succeed. Defaults to 1. */
+    halfOpenCalls?: number
+    /** Problems without a response that count as failures. Defaults to timeouts, connection and network errors. */
+    problems?: PROBLEM_CODE[]
+    /** Response status codes that count as failures. Defaults to 500, 502, 503 and 504. */
+    statusCodes?: number[]
+}
+
+export interface CircuitStateChange {
+    key: string
+    host: string
+    operationId?: string
+    from: CircuitState
+    to: CircuitState
+    timestamp: number
+}
+
+export interface CircuitBreakerConfig extends CircuitBreakerOptions {
+    /** Keeps one breaker per host, or one per host and operationId. Defaults to `host`. */
+    scope?: 'host' | 'operation'
+    /** Overrides keyed by operationId. `false` lets the operation bypass the breaker. */
+    operations?: Record<string, CircuitBreakerOptions | false>
+    onStateChange?: (change: CircuitStateChange) => void
+}
+
+export interface CircuitSnapshot {
+    key: string
+    host: string
+    operationId?: string
+    state: CircuitState
+    /** Calls and failures in the current window. */
+    calls: number
+    failures: number
+    openedAt?: number
+}
+
+export interface CircuitFilter {
+    host?: string
+    operationId?: string
+}
+
+export interface CircuitBreaker {
+    layer: TransportLayer
+    get(key: string): CircuitSnapshot | undefined
+    list(): CircuitSnapshot[]
+    /** Closes matching breakers and forgets their calls. Without a filter every breaker is reset. */
+    reset(filter?: CircuitFilter): void
+}
+
+/** Code of the errors of requests rejected by an open circuit. */
+export const ERR_CIRCUIT_OPEN = 'ERR_CIRCUIT_OPEN'
+
+/**
+ * The error a request rejected by the open circuit `key` fails with.
+ */
+export const createCircuitOpenError = (key: string, config: ApiRequestConfig) =>
+    new AxiosError(`Circuit for ${key} is open`, ERR_CIRCUIT_OPEN, config)
+
+interface Circuit {
+    host: string
+    operationId?: string
+    state: CircuitState
+    outcomes: { time: number; failed: boolean }[]
+    openedAt?: number
+    trials: number
+    successes: number
+}
+
+const defaultOptions = (): Required<CircuitBreakerOptions> => ({
+    failureThreshold: 0.5,
+    minimumCalls: 10,
+    window: 60000,
+    openDuration: 30000,
+    halfOpenCalls: 1,
+    problems: [PROBLEM_CODE.TIMEOUT_ERROR, PROBLEM_CODE.CONNECTION_ERROR, PROBLEM_CODE.NETWORK_ERROR],
+    statusCodes: [500, 502, 503, 504],
+})
+
+/**
+ * Fails requests fast while their host or operation keeps failing. A circuit opens when the share of failed calls in
+ * the rolling window reaches the threshold, lets trial calls through after `openDuration` and closes when they succeed.
+ */
+export const createCircuitBreaker = (config: CircuitBreakerConfig = {}): CircuitBreaker => {
+    const { operations = {}, scope = 'host', onStateChange, ...globalOptions } = config
+    const circuits = new Map<string, Circuit>()
+
+    const transition = (key: string, circuit: Circuit, to: CircuitState) => {
+        const from = circuit.state
+        circuit.state = to
+        circuit.trials = 0
+        circuit.successes = 0
+        if (to === 'open') circuit.openedAt = Date.now()
+        if (to === 'closed') {
+            circuit.outcomes = []
+            circuit.openedAt = undefined
+        }
+        const { host, operationId } = circuit
+        onStateChange?.({ key, host, operationId, from, to, timestamp: Date.now() })
+    }
+
+    const prune = (circuit: Circuit, options: Required<CircuitBreakerOptions>) => {
+        const since = Date.now() - options.window
+        circuit.outcomes = circuit.outcomes.filter((outcome) => outcome.time > since)
+    }
+
+    const isFailure = (error: AxiosError, options: Required<CircuitBreakerOptions>) => {
+        const status = error.response?.status
+        if (status !== undefined) return options.statusCodes.includes(status)
+        const problem = getProblemFromError(error)
+        return !!problem && options.problems.includes(problem)
+    }
+
+    const record = (
+        key: string,
+        circuit: Circuit,
+        failed: boolean,
+        trial: boolean,
+        options: Required<CircuitBreakerOptions>,
+    ) => {
+        // Calls that started before the circuit opened no longer count
+        if (circuit.state === 'open' || (circuit.state === 'halfOpen' && !trial)) return
+        if (circuit.state === 'halfOpen') {
+            if (failed) return transition(key, circuit, 'open')
+            if (++circuit.successes >= options.halfOpenCalls) transition(key, circuit, 'closed')
+            return
+        }
+        circuit.outcomes.push({ time: Date.now(), failed })
+        prune(circuit, options)
+        const failures = circuit.outcomes.filter((outcome) => outcome.failed).length
+        const calls = circuit.outcomes.length
+        if (calls >= options.minimumCalls && failures / calls >= options.failureThreshold) {
+            transition(key, circuit, 'open')
+        }
+    }
+
+    const layer: TransportLayer = async (requestConfig, next): Promise<AxiosResponse> => {
+        const { operationId } = requestConfig
+        const override = operationId ? operations[operationId] : undefined
+        if (override === false) return next(requestConfig)
+
+        const options = { ...defaultOptions(), ...globalOptions, ...override }
+        const host = getRequestUrl(requestConfig).host
+        const key = scope === 'operation' && operationId ? `${host} ${operationId}` : host
+        let circuit = circuits.get(key)
+        if (!circuit) {
+            circuit = {
+                host,
+                operationId: scope === 'operation' ? operationId : undefined,
+                state: 'closed',
+                outcomes: [],
+                trials: 0,
+                successes: 0,
+            }
+            circuits.set(key, circuit)
+        }
+
+        if (circuit.state === 'open' && Date.now() - circuit.openedAt! >= options.openDuration) {
+            transition(key, circuit, 'halfOpen')
+        }
+        if (circuit.state === 'open' || (circuit.state === 'halfOpen' && circuit.trials >= options.halfOpenCalls)) {
+            throw createCircuitOpenError(key, requestConfig)
+        }
+
+        const trial = circuit.state === 'halfOpen'
+        if (trial) circuit.trials++
+        try {
+            const response = await next(requestConfig)
+            record(key, circuit, false, trial, options)
+            return response
+        } catch (e) {
+            const error = e as AxiosError
+            if (error?.isAxiosError && getProblemFromError(error) !== PROBLEM_CODE.CANCEL_ERROR) {
+                record(key, circuit, isFailure(error, options), trial, options)
+            } else if (trial && circuit.state === 'halfOpen') {
+                // Cancelled trials free their slot
+                circuit.trials--
+            }
+            throw e
+        }
+    }
+
+    const snapshot = (key: string, circuit: Circuit): CircuitSnapshot => {
+        const { host, operationId, state, outcomes, openedAt } = circuit
+        const failures = outcomes.filter((outcome) => outcome.failed).length
+        return { key, host, operationId, state, calls: outcomes.length, failures, openedAt }
+    }
+
+    return {
+        layer,
+        get: (key) => {
+            const circuit = circuits.get(key)
+            return circuit && snapshot(key, circuit)
+        },
+        list: () => [...circuits].map(([key, circuit]) => snapshot(key, circuit)),
+        reset: ({ host, operationId }: CircuitFilter = {}) => {
+            for (const [key, circuit] of circuits) {
+                if (host !== undefined && circuit.host !== host) continue
+                if (operationId !== undefined && circuit.operationId !== operationId) continue
+                if (circuit.state === 'closed') circuit.outcomes = []
+                else transition(key, circuit, 'closed')
+            }
+        },
+    }
+}
+
+const breakers = new WeakMap<object, CircuitBreaker>()
+
+/**
+ * Adds a circuit breaker to an instance created with `createApi`.
+ */
+export const useCircuitBreaker = (api: ApiInstance, config: CircuitBreakerConfig = {}): CircuitBreaker => {
+    const breaker = createCircuitBreaker(config)
+    breakers.set(api, breaker)
+    useTransport(api, 'breaker', breaker.layer)
+    return breaker
+}
+
+/**
+ * The circuit breaker of an instance, to inspect or reset its circuits.
+ */
+export const getCircuitBreaker = (api: ApiInstance): CircuitBreaker | undefined => breakers.get(api)
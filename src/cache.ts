@@ -0,0 +1,293 @@
+import axios, { AxiosError, AxiosHeaders, AxiosResponse } from 'axios'
+import { ApiInstance, ApiRequestConfig, TransportHandler, TransportLayer, useTransport } from './wrapper'
+
+export interface CacheEntry {
+    url: string
+    path: string
+    operationId?: string
+    status: number
+    statusText: string
+    headers: Record<string, string>
+    data: any
+    storedAt: number
+    expiresAt: number
+    etag?: string
+    lastModified?: string
+    /** Values of the request headers named by the response `Vary` header. */
+    vary?: Record<string, string | undefined>
+}
+
+/**
+ * Storage for cached responses. Methods may return promises to support asynchronous stores.
+ */
+export interface CacheStorage {
+    get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>
+    set(key: string, entry: CacheEntry): void | Promise<void>
+    delete(key: string): void | Promise<void>
+    keys(): Iterable<string> | Promise<Iterable<string>>
+}
+
+/**
+ * In-memory storage that evicts the least recently used entry when full.
+ */
+export class MemoryCacheStorage implements CacheStorage {
+    private readonly entries = new Map<string, CacheEntry>()
+
+    constructor(private readonly maxEntries = 500) {}
+
+    get(key: string) {
+        const entry = this.entries.get(key)
+        if (entry) {
+            this.entries.delete(key)
+            this.entries.set(key, entry)
+        }
+        return entry
+    }
+
+    set(key: string, entry: CacheEntry) {
+        this.entries.delete(key)
+        this.entries.set(key, entry)
+        while (this.entries.size > this.maxEntries) this.entries.delete(this.entries.keys().next().value!)
+    }
+
+    delete(key: string) {
+        this.entries.delete(key)
+    }
+
+    keys() {
+        return [...this.entries.keys()]
+    }
+}
+
+export interface CacheOptions {
+    /** Time in milliseconds a response is fresh when it has no `Cache-Control: max-age`. Defaults to 0. */
+    ttl?: number
+}
+
+export interface CacheConfig extends CacheOptions {
+    /** Defaults to a `MemoryCacheStorage`. */
+    storage?: CacheStorage
+    /** Overrides keyed by operationId. `false` disables caching for the operation. */
+    operations?: Record<string, CacheOptions | false>
+    /** Invalidates cached responses below the path of successful mutations. Defaults to true. */
+    invalidateOnMutation?: boolean
+}
+
+export interface CacheInvalidation {
+    operationId?: string
+    /** Invalidates responses of this path and everything below it. */
+    path?: string
+}
+
+const CACHEABLE_METHODS = ['get', 'head']
+const UNSAFE_METHODS = ['post', 'put', 'patch', 'delete']
+
+const parseCacheControl = (value: unknown): Record<string, string | true> => {
+    const directives: Record<string, string | true> = {}
+    for (const directive of String(value ?? '').split(',')) {
+        const [name, argument] = directive.trim().split('=')
+        if (name) directives[name.toLowerCase()] = argument?.replace(/^"|"$/g, '') ?? true
+    }
+    return directives
+}
+
+/**
+ * Full URL of a request with its query parameters in a stable order.
+ */
+export const getRequestUrl = (config: ApiRequestConfig): URL => {
+    const url = new URL(axios.getUri(config), 'http://localhost')
+    url.searchParams.sort()
+    return url
+}
+
+const isUnderPath = (path: string, prefix: string) => {
+    const base = prefix.replace(/\/$/, '')
+    return path === base || path.startsWith(`${base}/`)
+}
+
+const copy = <T>(data: T): T => {
+    try {
+        return structuredClone(data)
+    } catch {
+        return data
+    }
+}
+
+const getHeader = (config: ApiRequestConfig, name: string) => {
+    const value = config.headers.get(name)
+    return value === undefined || value === null ? undefined : String(value)
+}
+
+/**
+ * Key of the variant of a response selected by the request values of its `Vary` headers.
+ */
+const getVariantKey = (key: string, varyNames: string[], config: ApiRequestConfig) =>
+    `${key} ${JSON.stringify(varyNames.map((name) => getHeader(config, name) ?? null))}`
+
+const toResponse = (entry: CacheEntry, config: ApiRequestConfig): AxiosResponse => ({
+    data: copy(entry.data),
+    status: entry.status,
+    statusText: entry.statusText,
+    headers: new AxiosHeaders(entry.headers),
+    config,
+    request: undefined,
+})
+
+export interface ResponseCache {
+    layer: TransportLayer
+    /** Removes cached responses matching all given criteria, or every cached response. */
+    invalidate(invalidation?: CacheInvalidation): Promise<void>
+}
+
+/**
+ * Caches GET and HEAD responses, honoring `Cache-Control` and revalidating stale responses with their validators.
+ * Responses of operations with security requirements and `private` responses are not cached.
+ */
+export const createResponseCache = (config: CacheConfig = {}): ResponseCache => {
+    const storage = config.storage ?? new MemoryCacheStorage()
+
+    const removeEntries = async (predicate: (entry: CacheEntry) => boolean) => {
+        for (const key of [...(await storage.keys())]) {
+            const entry = await storage.get(key)
+            if (entry && predicate(entry)) await storage.delete(key)
+        }
+    }
+
+    const getFreshness = (response: AxiosResponse, requestConfig: ApiRequestConfig) => {
+        const directives = parseCacheControl(response.headers?.['cache-control'])
+        const override = requestConfig.operationId ? config.operations?.[requestConfig.operationId] : undefined
+        const maxAge = Number(directives['s-maxage'] ?? directives['max-age'])
+        const ttl =
+            override && override.ttl !== undefined
+                ? override.ttl
+                : directives['no-cache']
+                ? 0
+                : !Number.isNaN(maxAge)
+                ? maxAge * 1000
+                : config.ttl ?? 0
+        return { expiresAt: Date.now() + ttl, noStore: !!directives['no-store'] || !!directives.private }
+    }
+
+    const store = async (key: string, url: URL, response: AxiosResponse, requestConfig: ApiRequestConfig) => {
+        if (response.status < 200 || response.status >= 300) return
+        const { expiresAt, noStore } = getFreshness(response, requestConfig)
+        const headers = AxiosHeaders.from((response.headers ?? {}) as any).toJSON(true) as Record<string, string>
+        const varyNames = String(headers.vary ?? '')
+            .split(',')
+            .map((name) => name.trim().toLowerCase())
+            .filter(Boolean)
+        const etag = headers.etag
+        const lastModified = headers['last-modified']
+        if (noStore || varyNames.includes('*')) return
+        if (expiresAt <= Date.now() && !etag && !lastModified) return
+
+        const entry: CacheEntry = {
+            url: url.href,
+            path: url.pathname,
+            operationId: requestConfig.operationId,
+            status: response.status,
+            statusText: response.statusText,
+            headers,
+            data: copy(response.data),
+            storedAt: Date.now(),
+            expiresAt,
+            etag,
+            lastModified,
+            vary: varyNames.length
+                ? Object.fromEntries(varyNames.map((name) => [name, getHeader(requestConfig, name)]))
+                : undefined,
+        }
+        // The entry under the plain key tells which headers select the variant
+        await storage.set(key, entry)
+        if (varyNames.length) await storage.set(getVariantKey(key, varyNames, requestConfig), entry)
+    }
+
+    const lookup = async (key: string, requestConfig: ApiRequestConfig) => {
+        const entry = await storage.get(key)
+        if (!entry?.vary) return { key, entry }
+        const variantKey = getVariantKey(key, Object.keys(entry.vary), requestConfig)
+        const variant = await storage.get(variantKey)
+        const matches =
+            variant?.vary &&
+            Object.entries(variant.vary).every(([name, value]) => getHeader(requestConfig, name) === value)
+        return { key: variantKey, entry: matches ? variant : undefined }
+    }
+
+    const mutate = async (requestConfig: ApiRequestConfig, next: TransportHandler) => {
+        const response = await next(requestConfig)
+        if (config.invalidateOnMutation !== false && response.status >= 200 && response.status < 300) {
+            const path = getRequestUrl(requestConfig).pathname
+            // Also invalidates the collections the mutated resource belongs to
+            await removeEntries((entry) => isUnderPath(entry.path, path) || isUnderPath(path, entry.path))
+        }
+        return response
+    }
+
+    const layer: TransportLayer = async (requestConfig, next): Promise<AxiosResponse> => {
+        const method = (requestConfig.method ?? 'get').toLowerCase()
+        const override = requestConfig.operationId ? config.operations?.[requestConfig.operationId] : undefined
+        if (UNSAFE_METHODS.includes(method)) return mutate(requestConfig, next)
+        if (!CACHEABLE_METHODS.includes(method)) return next(requestConfig)
+        if (override === false || requestConfig.responseType === 'stream') return next(requestConfig)
+        // Credentials are applied after the cache, so cached responses of secured operations could reach other users
+        if (requestConfig.secured) return next(requestConfig)
+
+        const url = getRequestUrl(requestConfig)
+        const key = `${method} ${url.href}`
+        const requestDirectives = parseCacheControl(requestConfig.headers.get('Cache-Control'))
+        if (requestDirectives['no-store']) return next(requestConfig)
+
+        const { key: entryKey, entry } = await lookup(key, requestConfig)
+        if (entry && entry.expiresAt > Date.now() && !requestDirectives['no-cache']) {
+            return toResponse(entry, requestConfig)
+        }
+
+        if (entry?.etag) requestConfig.headers.set('If-None-Match', entry.etag)
+        if (entry?.lastModified) requestConfig.headers.set('If-Modified-Since', entry.lastModified)
+
+        let response: AxiosResponse
+        try {
+            response = await next(requestConfig)
+        } catch (e) {
+            const notModified = (e as AxiosError)?.response
+            if (!entry || notModified?.status !== 304) throw e
+            response = notModified
+        }
+        if (entry && response.status === 304) {
+            const revalidated = { ...entry, ...getFreshness(response, requestConfig), storedAt: Date.now() }
+            await storage.set(entryKey, revalidated)
+            return toResponse(revalidated, requestConfig)
+        }
+
+        await store(key, url, response, requestConfig)
+        return response
+    }
+
+    return {
+        layer,
+        invalidate: ({ operationId, path }: CacheInvalidation = {}) =>
+            removeEntries(
+                (entry) =>
+                    (operationId === undefined || entry.operationId === operationId) &&
+                    (path === undefined || isUnderPath(entry.path, path)),
+            ),
+    }
+}
+
+const caches = new WeakMap<object, ResponseCache>()
+
+/**
+ * Adds a response cache to an instance created with `createApi`.
+ */
+export const useCache = (api: ApiInstance, config: CacheConfig = {}): ResponseCache => {
+    const cache = createResponseCache(config)
+    caches.set(api, cache)
+    useTransport(api, 'cache', cache.layer)
+    return cache
+}
+
+/**
+ * Invalidates cached responses of an instance, by operationId or path. Without criteria the whole cache is cleared.
+ */
+export const invalidateCache = async (api: ApiInstance, invalidation?: CacheInvalidation): Promise<void> =>
+    caches.get(api)?.invalidate(invalidation)
@@ -0,0 +1,110 @@
+#!/usr/bin/env node
+import { readFile, writeFile } from 'fs/promises'
+import { generateClientFromLocation, GenerateOptions } from './codegen'
+
+const USAGE = `Usage: openapi-axios-client <spec> [options]
+
+Generates OperationMethods, PathsDictionary, ErrorBodies and zod validators from an OpenAPI spec.
+
+Options:
+  -o, --output <file>     Write to a file instead of stdout
+  --client                Also emit the spec and a createClient factory
+  --namespace-by-tag      Group methods under the name of their first tag
+  --import-path <module>  Module to import the client from (default: @kallinen/openapi-axios-client)
+  --check                 Exit with an error when the output file is not up to date
+  -h, --help              Show this help`
+
+export interface CliIO {
+    stdout: (text: string) => void
+    stderr: (text: string) => void
+}
+
+interface CliArgs extends GenerateOptions {
+    spec?: string
+    output?: string
+    check?: boolean
+    help?: boolean
+}
+
+const parseArgs = (args: string[]): CliArgs => {
+    const result: CliArgs = {}
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i]
+        const value = () => {
+            if (i + 1 >= args.length) throw new Error(`Missing value for ${arg}`)
+            return args[++i]
+        }
+        if (arg === '-o' || arg === '--output') result.output = value()
+        else if (arg === '--import-path') result.importPath = value()
+        else if (arg === '--client') result.client = true
+        else if (arg === '--namespace-by-tag') result.namespaceByTag = true
+        else if (arg === '--check') result.check = true
+        else if (arg === '-h' || arg === '--help') result.help = true
+        else if (arg.startsWith('-')) throw new Error(`Unknown option: ${arg}`)
+        else if (result.spec === undefined) result.spec = arg
+        else throw new Error(`Unexpected argument: ${arg}`)
+    }
+    return result
+}
+
+const readExisting = async (file: string) => {
+    try {
+        return await readFile(file, 'utf8')
+    } catch {
+        return undefined
+    }
+}
+
+/**
+ * Runs the generator with command line arguments and resolves with the exit code.
+ */
+export const runCli = async (
+    args: string[],
+    io: CliIO = { stdout: (text) => process.stdout.write(text), stderr: (text) => process.stderr.write(text) },
+): Promise<number> => {
+    let options: CliArgs
+    try {
+        options = parseArgs(args)
+    } catch (e) {
+        io.stderr(`${(e as Error).message}\n\n${USAGE}\n`)
+        return 2
+    }
+    if (options.help) {
+        io.stdout(`${USAGE}\n`)
+        return 0
+    }
+    if (!options.spec || (options.check && !options.output)) {
+        io.stderr(`${options.spec ? '--check needs --output' : 'Missing spec'}\n\n${USAGE}\n`)
+        return 2
+    }
+
+    let source: string
+    try {
+        source = await generateClientFromLocation(options.spec, {
+            client: options.client,
+            importPath: options.importPath,
+            namespaceByTag: options.namespaceByTag,
+        })
+    } catch (e) {
+        io.stderr(`${(e as Error).message}\n`)
+        return 1
+    }
+
+    if (!options.output) {
+        io.stdout(source)
+        return 0
+    }
+    if (options.check) {
+        if ((await readExisting(options.output)) === source) return 0
+        io.stderr(`${options.output} is out of date. Run the generator again without --check.\n`)
+        return 1
+    }
+    await writeFile(options.output, source)
+    return 0
+}
+
+if (require.main === module) {
+    runCli(process.argv.slice(2)).then((code) => {
+        process.exitCode = code
+    })
+}
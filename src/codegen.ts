@@ -0,0 +1,402 @@
+import { normalizeSpec, OpenAPIMediaType, OpenAPISchema, OpenAPISpec, resolveRef, SpecOperation } from './document'
+import { BuildClientOptions, isReservedName, loadSpec, nameOperations } from './openapi'
+import type { SwaggerSpec } from './swagger'
+import { createApi } from './wrapper'
+
+export interface GenerateOptions extends Pick<BuildClientOptions, 'operationName' | 'namespaceByTag'> {
+    /** Module the generated client factory imports from. Defaults to this package. */
+    importPath?: string
+    /** Also emits the spec and a `createClient` factory bound to the generated types and validators. */
+    client?: boolean
+}
+
+const PACKAGE_NAME = '@kallinen/openapi-axios-client'
+
+const HEADER = '// This file was generated by openapi-axios-client. Do not edit it by hand.'
+
+const MAX_INLINE_DEPTH = 16
+
+const SCHEMA_REF = /^#\/components\/schemas\/([^/]+)$/
+
+const isIdentifier = (name: string) => /^[A-Za-z_$][\w$]*$/.test(name)
+
+const toKey = (name: string) => (isIdentifier(name) ? name : JSON.stringify(name))
+
+const toTypeName = (name: string) => {
+    const safe = name.replace(/[^\w$]/g, '_')
+    return /^\d/.test(safe) ? `_${safe}` : safe.charAt(0).toUpperCase() + safe.slice(1)
+}
+
+const wrap = (type: string) => (/^[\w$.]+(\[\])*$/.test(type) || /^\{[^]*\}(\[\])*$/.test(type) ? type : `(${type})`)
+
+const indent = (code: string, depth = 1) => code.replace(/\n/g, `\n${'    '.repeat(depth)}`)
+
+const block = (lines: string[]) =>
+    lines.length ? `{\n${lines.map((line) => `    ${indent(line)}`).join('\n')}\n}` : '{}'
+
+const getJsonMediaType = (content: Record<string, OpenAPIMediaType> | undefined): OpenAPIMediaType | undefined => {
+    const type = Object.keys(content ?? {}).find((t) => /json/i.test(t))
+    return type ? content![type] : undefined
+}
+
+const getTypes = (schema: OpenAPISchema): string[] =>
+    Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : []
+
+const isNullable = (schema: OpenAPISchema) => schema.nullable === true || getTypes(schema).includes('null')
+
+/**
+ * Emits TypeScript types and zod schemas for the schemas of a spec. Schemas in `components.schemas` are
+ * referenced by name, everything else is inlined.
+ */
+const createSchemaPrinter = (spec: OpenAPISpec) => {
+    const componentRef = (schema: OpenAPISchema) => {
+        const match = schema.$ref ? SCHEMA_REF.exec(schema.$ref) : null
+        return match ? decodeURIComponent(match[1]).replace(/~1/g, '/').replace(/~0/g, '~') : undefined
+    }
+
+    const toType = (schemaOrRef: OpenAPISchema | undefined, depth = 0): string => {
+        if (!schemaOrRef || depth > MAX_INLINE_DEPTH) return 'any'
+        const name = componentRef(schemaOrRef)
+        if (name !== undefined) return `Schemas.${toTypeName(name)}`
+        const schema = resolveRef<OpenAPISchema>(spec, schemaOrRef)
+        const nullable = isNullable(schema) ? ' | null' : ''
+
+        if (schema.const !== undefined) return JSON.stringify(schema.const)
+        if (schema.enum?.length) {
+            const values = schema.enum.map((value) => JSON.stringify(value))
+            return [...values, ...(nullable && !schema.enum.includes(null) ? ['null'] : [])].join(' | ')
+        }
+        if (schema.allOf?.length) {
+            return `${schema.allOf.map((part) => wrap(toType(part, depth + 1))).join(' & ')}${nullable}`
+        }
+        const union = schema.oneOf ?? schema.anyOf
+        if (union?.length) return `${union.map((part) => wrap(toType(part, depth + 1))).join(' | ')}${nullable}`
+
+        const type = getTypes(schema).find((t) => t !== 'null') ?? (schema.properties ? 'object' : undefined)
+        switch (type) {
+            case 'string':
+                return `${schema.format === 'binary' ? 'Blob' : 'string'}${nullable}`
+            case 'integer':
+            case 'number':
+                return `number${nullable}`
+            case 'boolean':
+                return `boolean${nullable}`
+            case 'array':
+                return `${wrap(toType(schema.items, depth + 1))}[]${nullable}`
+            case 'object': {
+                const required = schema.required ?? []
+                const members = Object.entries(schema.properties ?? {}).map(
+                    ([key, property]) =>
+                        `${toKey(key)}${required.includes(key) ? '' : '?'}: ${toType(property, depth + 1)}`,
+                )
+                const additional = schema.additionalProperties
+                if (additional !== false && (additional !== undefined || !members.length)) {
+                    const value = typeof additional === 'object' ? toType(additional, depth + 1) : 'any'
+                    members.push(`[key: string]: ${members.length ? 'any' : value}`)
+                }
+                return `${block(members)}${nullable}`
+            }
+            default:
+                return type === 'null' ? 'null' : 'any'
+        }
+    }
+
+    const toZod = (schemaOrRef: OpenAPISchema | undefined, depth = 0): string => {
+        if (!schemaOrRef || depth > MAX_INLINE_DEPTH) return 'z.any()'
+        const name = componentRef(schemaOrRef)
+        if (name !== undefined) return isIdentifier(name) ? `schemas.${name}` : `schemas[${JSON.stringify(name)}]`
+        const schema = resolveRef<OpenAPISchema>(spec, schemaOrRef)
+        const nullable = isNullable(schema) ? '.nullable()' : ''
+
+        if (schema.const !== undefined) return `z.literal(${JSON.stringify(schema.const)})`
+        if (schema.enum?.length) {
+            const values = schema.enum.filter((value) => value !== null)
+            const literals = values.map((value) => `z.literal(${JSON.stringify(value)})`)
+            const zod = literals.length === 1 ? literals[0] : `z.union([${literals.join(', ')}])`
+            return values.length < schema.enum.length || nullable ? `${zod}.nullable()` : zod
+        }
+        if (schema.allOf?.length) {
+            const [first, ...rest] = schema.allOf.map((part) => toZod(part, depth + 1))
+            return `${first}${rest.map((part) => `.and(${part})`).join('')}${nullable}`
+        }
+        const union = schema.oneOf ?? schema.anyOf
+        if (union?.length) {
+            const parts = union.map((part) => toZod(part, depth + 1))
+            return `${parts.length === 1 ? parts[0] : `z.union([${parts.join(', ')}])`}${nullable}`
+        }
+
+        const type = getTypes(schema).find((t) => t !== 'null') ?? (schema.properties ? 'object' : undefined)
+        switch (type) {
+            case 'string': {
+                if (schema.format === 'binary') return `z.any()${nullable}`
+                const checks = [
+                    schema.minLength !== undefined ? `.min(${schema.minLength})` : '',
+                    schema.maxLength !== undefined ? `.max(${schema.maxLength})` : '',
+                    schema.pattern !== undefined ? `.regex(new RegExp(${JSON.stringify(schema.pattern)}))` : '',
+                ]
+                return `z.string()${checks.join('')}${nullable}`
+            }
+            case 'integer':
+            case 'number': {
+                const checks = [
+                    type === 'integer' ? '.int()' : '',
+                    // OpenAPI 3.0 marks exclusive bounds with a boolean
+                    schema.minimum !== undefined
+                        ? `.${schema.exclusiveMinimum === true ? 'gt' : 'gte'}(${schema.minimum})`
+                        : '',
+                    schema.maximum !== undefined
+                        ? `.${schema.exclusiveMaximum === true ? 'lt' : 'lte'}(${schema.maximum})`
+                        : '',
+                    typeof schema.exclusiveMinimum === 'number' ? `.gt(${schema.exclusiveMinimum})` : '',
+                    typeof schema.exclusiveMaximum === 'number' ? `.lt(${schema.exclusiveMaximum})` : '',
+                ]
+                return `z.number()${checks.join('')}${nullable}`
+            }
+            case 'boolean':
+                return `z.boolean()${nullable}`
+            case 'array': {
+                const checks = [
+                    schema.minItems !== undefined ? `.min(${schema.minItems})` : '',
+                    schema.maxItems !== undefined ? `.max(${schema.maxItems})` : '',
+                ]
+                return `z.array(${toZod(schema.items, depth + 1)})${checks.join('')}${nullable}`
+            }
+            case 'object': {
+                const required = schema.required ?? []
+                const properties = Object.entries(schema.properties ?? {}).map(
+                    ([key, property]) =>
+                        `${toKey(key)}: ${toZod(property, depth + 1)}${required.includes(key) ? '' : '.optional()'},`,
+                )
+                const additional = schema.additionalProperties
+                if (!properties.length && typeof additional === 'object') {
+                    return `z.record(z.string(), ${toZod(additional, depth + 1)})${nullable}`
+                }
+                const shape = block(properties)
+                if (additional === false) return `z.strictObject(${shape})${nullable}`
+                if (typeof additional === 'object') {
+                    return `z.object(${shape}).catchall(${toZod(additional, depth + 1)})${nullable}`
+                }
+                return `z.looseObject(${shape})${nullable}`
+            }
+            default:
+                return type === 'null' ? 'z.null()' : 'z.any()'
+        }
+    }
+
+    return { toType, toZod }
+}
+
+interface GeneratedOperation {
+    name: string
+    namespace?: string
+    typeName: string
+    operation: SpecOperation
+    /** Source of the zod schemas of the params, the body and the responses keyed by status */
+    params?: string
+    body?: string
+    responses: Record<string, string>
+}
+
+/**
+ * Generates the source of a TypeScript module with the `OperationMethods`, `PathsDictionary` and `ErrorBodies`
+ * types of a spec, and zod schemas for requests and responses keyed by the same operationIds as the client.
+ */
+export const generateClient = (specOrSwagger: OpenAPISpec | SwaggerSpec, options: GenerateOptions = {}): string => {
+    const spec = normalizeSpec(specOrSwagger)
+    const { toType, toZod } = createSchemaPrinter(spec)
+    const componentSchemas = Object.entries(spec.components?.schemas ?? {})
+    const out: string[] = [HEADER, '', "import type { AxiosResponse } from 'axios'", "import { z } from 'zod'"]
+    out.push(
+        options.client
+            ? `import { createTypedApi, OpenAPISpec, OperationConfig, ResponseMode, TypedApiConfig } from '${
+                  options.importPath ?? PACKAGE_NAME
+              }'`
+            : `import type { OperationConfig } from '${options.importPath ?? PACKAGE_NAME}'`,
+        '',
+    )
+
+    out.push('export namespace Schemas {')
+    for (const [name, schema] of componentSchemas) {
+        out.push(`    export type ${toTypeName(name)} = ${indent(toType(resolveRef(spec, schema)))}`)
+    }
+    out.push('}', '')
+
+    // Names are checked against the members of an api instance, like buildClientFromSpec does
+    const api = createApi({ url: '' })
+    const named = nameOperations(spec, options, (name) => isReservedName(api, name))
+    // Type names are capitalized, so `getUser` and `GetUser` need different ones
+    const typeNames = new Set<string>()
+    const uniqueTypeName = (name: string) => {
+        let typeName = toTypeName(name)
+        for (let i = 2; typeNames.has(typeName); i++) typeName = `${toTypeName(name)}${i}`
+        typeNames.add(typeName)
+        return typeName
+    }
+    const operations: GeneratedOperation[] = named.map(({ name, namespace, specOperation: operation }) => {
+        const responses: Record<string, string> = {}
+        for (const [status, response] of Object.entries(operation.responses)) {
+            const mediaType = getJsonMediaType(response.content)
+            if (mediaType?.schema) responses[status] = toZod(mediaType.schema)
+        }
+        const parameters = operation.parameters.map(
+            (parameter) =>
+                `${toKey(parameter.name)}: ${toZod(parameter.schema)}${parameter.required ? '' : '.optional()'},`,
+        )
+        const pathParameters = operation.parameters.filter((parameter) => parameter.in === 'path')
+        const params = parameters.length ? `z.looseObject(${block(parameters)})` : undefined
+        const bodySchema = getJsonMediaType(operation.requestBody?.content)?.schema
+        return {
+            name,
+            namespace,
+            typeName: uniqueTypeName(name),
+            operation,
+            // Operations with a single path parameter also accept its value instead of an object
+            params:
+                params && pathParameters.length === 1
+                    ? `z.union([${params}, ${toZod(pathParameters[0].schema)}])`
+                    : params,
+            body: bodySchema
+                ? `${toZod(bodySchema)}${operation.requestBody?.required ? '' : '.optional()'}`
+                : undefined,
+            responses,
+        }
+    })
+
+    out.push('export namespace Operations {')
+    for (const { typeName, operation } of operations) {
+        const members = operation.parameters.map(
+            (parameter) =>
+                `${parameter.deprecated ? '/** @deprecated */\n' : ''}${toKey(parameter.name)}${
+                    parameter.required ? '' : '?'
+                }: ${toType(parameter.schema)}`,
+        )
+        const pathParameters = operation.parameters.filter((parameter) => parameter.in === 'path')
+        const requestBody = operation.requestBody
+        const bodyMedia = requestBody?.content ? Object.values(requestBody.content)[0] : undefined
+        const successes = Object.entries(operation.responses).filter(([status]) => /^2/.test(status))
+        const failures = Object.entries(operation.responses).filter(([status]) => !/^2/.test(status))
+        const responseType = (entries: typeof successes) => {
+            const schemas = entries.map(([, response]) => getJsonMediaType(response.content)?.schema).filter(Boolean)
+            return schemas.length ? schemas.map((schema) => wrap(toType(schema))).join(' | ') : 'any'
+        }
+
+        out.push(`    export namespace ${typeName} {`)
+        out.push(
+            `        export type Parameters = ${members.length ? indent(block(members), 2) : '{ [key: string]: any }'}`,
+        )
+        if (pathParameters.length === 1) {
+            out.push(`        export type PathParameter = ${indent(toType(pathParameters[0].schema), 2)}`)
+        }
+        out.push(`        export type RequestBody = ${indent(bodyMedia?.schema ? toType(bodyMedia.schema) : 'any', 2)}`)
+        out.push(`        export type Response = ${indent(responseType(successes), 2)}`)
+        out.push(`        export type ErrorBody = ${indent(responseType(failures), 2)}`)
+        out.push('    }')
+    }
+    out.push('}', '')
+
+    // Members of namespaced operations are nested under their namespace
+    const printMembers = (print: (operation: GeneratedOperation) => string[]) => {
+        const lines = operations.filter((operation) => operation.namespace === undefined).flatMap(print)
+        const namespaces = [...new Set(operations.map((operation) => operation.namespace))]
+        for (const namespace of namespaces.filter((name): name is string => name !== undefined)) {
+            const members = operations.filter((operation) => operation.namespace === namespace).flatMap(print)
+            lines.push(`${toKey(namespace)}: {`, ...members.map((line) => `    ${line}`), '}')
+        }
+        return lines.map((line) => `    ${line}`)
+    }
+    const methodType = ({ name, namespace }: GeneratedOperation) =>
+        `OperationMethods${namespace !== undefined ? `[${JSON.stringify(namespace)}]` : ''}[${JSON.stringify(name)}]`
+
+    out.push('export interface OperationMethods {')
+    out.push(
+        ...printMembers(({ name, typeName, operation }) => {
+            const hasRequired = operation.parameters.some((parameter) => parameter.required)
+            const bodyRequired = operation.requestBody?.required === true
+            const pathParameters = operation.parameters.filter((parameter) => parameter.in === 'path')
+            const paramsType = `Operations.${typeName}.Parameters${
+                pathParameters.length === 1 ? ` | Operations.${typeName}.PathParameter` : ''
+            }`
+            const args = [
+                `params${hasRequired || bodyRequired ? '' : '?'}: ${paramsType}`,
+                `data${bodyRequired ? '' : '?'}: Operations.${typeName}.RequestBody`,
+                'config?: OperationConfig',
+            ]
+            const summary = operation.operation.summary ?? operation.operation.description
+            const docs = [
+                ...(summary ? [summary.replace(/\*\//g, '*\\/').split('\n')[0]] : []),
+                ...(operation.operation.deprecated ? ['@deprecated'] : []),
+            ]
+            return [
+                ...(docs.length === 1 ? [`/** ${docs[0]} */`] : []),
+                ...(docs.length > 1 ? ['/**', ...docs.map((line) => ` * ${line}`), ' */'] : []),
+                `${toKey(name)}(${args.join(', ')}): Promise<AxiosResponse<Operations.${typeName}.Response>>`,
+            ]
+        }),
+    )
+    out.push('}', '')
+
+    const paths = new Map<string, string[]>()
+    for (const operation of operations) {
+        const { path, method } = operation.operation
+        paths.set(path, [...(paths.get(path) ?? []), `${method}: ${methodType(operation)}`])
+    }
+    out.push('export interface PathsDictionary {')
+    for (const [path, methods] of paths) {
+        out.push(`    ${JSON.stringify(path)}: {`, ...methods.map((method) => `        ${method}`), '    }')
+    }
+    out.push('}', '')
+
+    out.push('export interface ErrorBodies {')
+    out.push(...printMembers(({ name, typeName }) => [`${toKey(name)}: Operations.${typeName}.ErrorBody`]))
+    out.push('}', '')
+
+    out.push('export const schemas: Record<string, z.ZodType> = {')
+    for (const [name, schema] of componentSchemas) {
+        out.push(`    ${toKey(name)}: z.lazy((): z.ZodType => ${indent(toZod(resolveRef(spec, schema)))}),`)
+    }
+    out.push('}', '')
+
+    out.push('export const apiRequestValidators = {')
+    for (const { name, params, body } of operations.filter((o) => o.params || o.body)) {
+        out.push(`    ${toKey(name)}: {`)
+        if (params) out.push(`        params: ${indent(params, 2)},`)
+        if (body) out.push(`        body: ${indent(body, 2)},`)
+        out.push('    },')
+    }
+    out.push('}', '')
+
+    out.push('export const apiResponseValidators = {')
+    for (const { name, responses } of operations.filter((o) => Object.keys(o.responses).length)) {
+        out.push(`    ${toKey(name)}: {`)
+        for (const [status, zod] of Object.entries(responses)) out.push(`        ${toKey(status)}: ${indent(zod, 2)},`)
+        out.push('    },')
+    }
+    out.push('}', '')
+
+    if (options.client) {
+        out.push(`export const spec = ${JSON.stringify(specOrSwagger, null, 4)} as unknown as OpenAPISpec`, '')
+        out.push(
+            '/**',
+            ' * Creates a client for the spec with the generated types and validators.',
+            ' */',
+            "export const createClient = <Mode extends ResponseMode = 'envelope'>(",
+            '    config: TypedApiConfig & { responseMode?: Mode } = {},',
+            ') =>',
+            '    createTypedApi<OperationMethods, PathsDictionary, ErrorBodies, Mode>(spec, {',
+            '        validators: apiResponseValidators,',
+            '        requestValidators: apiRequestValidators,',
+            ...(options.namespaceByTag ? ['        namespaceByTag: true,'] : []),
+            '        ...config,',
+            '    })',
+            '',
+        )
+    }
+
+    return out.join('\n')
+}
+
+/**
+ * Loads a spec with `loadSpec` and generates its client module.
+ */
+export const generateClientFromLocation = async (location: string, options: GenerateOptions = {}) =>
+    generateClient(await loadSpec(location), options)
@@ -0,0 +1,114 @@
+import { AxiosError, AxiosHeaders, AxiosResponse, CanceledError } from 'axios'
+import { getRequestUrl } from './cache'
+import type { ApiRequestConfig, TransportLayer } from './wrapper'
+
+const DEDUPED_METHODS = ['get', 'head']
+
+interface InFlight {
+    promise: Promise<AxiosResponse>
+    controller: AbortController
+    subscribers: number
+}
+
+const getDedupeKey = (config: ApiRequestConfig, method: string) => {
+    const headers = Object.entries(AxiosHeaders.from(config.headers).toJSON(true))
+        .map(([name, value]) => [name.toLowerCase(), value])
+        .sort(([a], [b]) => String(a).localeCompare(String(b)))
+    return `${method} ${getRequestUrl(config).href} ${JSON.stringify(headers)}`
+}
+
+const clone = <T>(data: T): T => {
+    try {
+        return structuredClone(data)
+    } catch {
+        return data
+    }
+}
+
+/**
+ * Copies the attempts of the shared request to a caller's config. Of the time the shared request spent in the
+ * queue, only the part after the caller joined counts for the caller.
+ */
+const adoptTimings = (shared: ApiRequestConfig | undefined, config: ApiRequestConfig): ApiRequestConfig => {
+    let queueTime = shared?.queueTime
+    if (queueTime !== undefined && shared?.startTime !== undefined && config.startTime !== undefined) {
+        queueTime = Math.min(queueTime, Math.max(0, shared.startTime + queueTime - config.startTime))
+    }
+    return Object.assign(config, { attempts: shared?.attempts, queueTime })
+}
+
+/**
+ * Hands the shared response to a caller with its own copy of the data, keeping the caller's own config.
+ */
+const adopt = (response: AxiosResponse, config: ApiRequestConfig): AxiosResponse => ({
+    ...response,
+    data: clone(response.data),
+    config: adoptTimings(response.config as ApiRequestConfig, config),
+})
+
+const adoptError = (error: unknown, config: ApiRequestConfig): unknown => {
+    if (!(error instanceof AxiosError) || error instanceof CanceledError) return error
+    const response = error.response && adopt(error.response, config)
+    const adopted = response?.config ?? adoptTimings(error.config as ApiRequestConfig, config)
+    return AxiosError.from(error, error.code, adopted, error.request, response)
+}
+
+/**
+ * Resolves with the shared request, or rejects when the subscriber's own signal aborts.
+ */
+const subscribe = (inFlight: InFlight, config: ApiRequestConfig): Promise<AxiosResponse> => {
+    inFlight.subscribers++
+    const signal = config.signal
+    const release = () => {
+        if (--inFlight.subscribers === 0) inFlight.controller.abort()
+    }
+    if (!signal) {
+        return inFlight.promise.then(
+            (response) => adopt(response, config),
+            (error) => Promise.reject(adoptError(error, config)),
+        )
+    }
+
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            release()
+            reject(new CanceledError(undefined, undefined, config))
+        }
+        if (signal.aborted) return onAbort()
+        signal.addEventListener?.('abort', onAbort)
+        inFlight.promise
+            .then(
+                (response) => resolve(adopt(response, config)),
+                (error) => reject(adoptError(error, config)),
+            )
+            .finally(() => signal.removeEventListener?.('abort', onAbort))
+    })
+}
+
+/**
+ * Shares one request between identical GET and HEAD requests that are in flight at the same time.
+ * The shared request is only cancelled when every caller has cancelled.
+ */
+export const createDedupeLayer = (): TransportLayer => {
+    const inFlight = new Map<string, InFlight>()
+
+    return (config, next): Promise<AxiosResponse> => {
+        const method = (config.method ?? 'get').toLowerCase()
+        if (!DEDUPED_METHODS.includes(method) || config.responseType === 'stream') return next(config)
+
+        const key = getDedupeKey(config, method)
+        const existing = inFlight.get(key)
+        if (existing) return subscribe(existing, config)
+
+        const controller = new AbortController()
+        const shared: InFlight = {
+            controller,
+            subscribers: 0,
+            promise: next({ ...config, signal: controller.signal } as ApiRequestConfig).finally(() => {
+                if (inFlight.get(key) === shared) inFlight.delete(key)
+            }),
+        }
+        inFlight.set(key, shared)
+        return subscribe(shared, config)
+    }
+}
@@ -0,0 +1,393 @@
+import type { Methods } from './wrapper'
+import { convertSwaggerSpec, isSwaggerSpec, SwaggerSpec } from './swagger'
+
+/*
+ * OpenAPI 3.0 / 3.1 document model. Fields that only exist in 3.1 are marked as such.
+ * Specification extensions (`x-*`) are allowed on every object that supports them.
+ */
+
+export type Extensions = { [extension: `x-${string}`]: any }
+
+export interface OpenAPIReference {
+    $ref: string
+    summary?: string
+    description?: string
+}
+
+export type Ref<T> = T | OpenAPIReference
+
+/** JSON Schema as used by OpenAPI. Only the keywords this library reads are typed. */
+export interface OpenAPISchema extends Extensions {
+    $ref?: string
+    type?: string | string[]
+    format?: string
+    title?: string
+    description?: string
+    enum?: any[]
+    const?: any
+    default?: any
+    example?: any
+    /** 3.1 */
+    examples?: any[]
+    nullable?: boolean
+    readOnly?: boolean
+    writeOnly?: boolean
+    deprecated?: boolean
+    properties?: Record<string, OpenAPISchema>
+    additionalProperties?: boolean | OpenAPISchema
+    required?: string[]
+    items?: OpenAPISchema
+    prefixItems?: OpenAPISchema[]
+    allOf?: OpenAPISchema[]
+    oneOf?: OpenAPISchema[]
+    anyOf?: OpenAPISchema[]
+    not?: OpenAPISchema
+    discriminator?: { propertyName: string; mapping?: Record<string, string> }
+    minimum?: number
+    maximum?: number
+    exclusiveMinimum?: number | boolean
+    exclusiveMaximum?: number | boolean
+    multipleOf?: number
+    minLength?: number
+    maxLength?: number
+    pattern?: string
+    minItems?: number
+    maxItems?: number
+    uniqueItems?: boolean
+    minProperties?: number
+    maxProperties?: number
+    contentMediaType?: string
+    contentEncoding?: string
+    [keyword: string]: any
+}
+
+export interface OpenAPIContact extends Extensions {
+    name?: string
+    url?: string
+    email?: string
+}
+
+export interface OpenAPILicense extends Extensions {
+    name: string
+    identifier?: string
+    url?: string
+}
+
+export interface OpenAPIInfo extends Extensions {
+    title: string
+    version: string
+    summary?: string
+    description?: string
+    termsOfService?: string
+    contact?: OpenAPIContact
+    license?: OpenAPILicense
+}
+
+export interface OpenAPIServerVariable extends Extensions {
+    default: string
+    enum?: string[]
+    description?: string
+}
+
+export interface OpenAPIServer extends Extensions {
+    url: string
+    description?: string
+    variables?: Record<string, OpenAPIServerVariable>
+}
+
+export interface OpenAPIExternalDocs extends Extensions {
+    url: string
+    description?: string
+}
+
+export interface OpenAPITag extends Extensions {
+    name: string
+    description?: string
+    externalDocs?: OpenAPIExternalDocs
+}
+
+export interface OpenAPIExample extends Extensions {
+    summary?: string
+    description?: string
+    value?: any
+    externalValue?: string
+}
+
+export type ParameterLocation = 'path' | 'query' | 'header' | 'cookie'
+
+export type ParameterStyle = 'matrix' | 'label' | 'form' | 'simple' | 'spaceDelimited' | 'pipeDelimited' | 'deepObject'
+
+export interface OpenAPIEncoding extends Extensions {
+    contentType?: string
+    headers?: Record<string, Ref<OpenAPIHeader>>
+    style?: ParameterStyle
+    explode?: boolean
+    allowReserved?: boolean
+}
+
+export interface OpenAPIMediaType extends Extensions {
+    schema?: OpenAPISchema
+    example?: any
+    examples?: Record<string, Ref<OpenAPIExample>>
+    encoding?: Record<string, OpenAPIEncoding>
+}
+
+export interface OpenAPIParameter extends Extensions {
+    name: string
+    in: ParameterLocation
+    description?: string
+    required?: boolean
+    deprecated?: boolean
+    allowEmptyValue?: boolean
+    schema?: OpenAPISchema
+    style?: ParameterStyle
+    explode?: boolean
+    allowReserved?: boolean
+    example?: any
+    examples?: Record<string, Ref<OpenAPIExample>>
+    content?: Record<string, OpenAPIMediaType>
+}
+
+export type OpenAPIHeader = Omit<OpenAPIParameter, 'name' | 'in'>
+
+export interface OpenAPIRequestBody extends Extensions {
+    content: Record<string, OpenAPIMediaType>
+    description?: string
+    required?: boolean
+}
+
+export interface OpenAPILink extends Extensions {
+    operationRef?: string
+    operationId?: string
+    parameters?: Record<string, any>
+    requestBody?: any
+    description?: string
+    server?: OpenAPIServer
+}
+
+export interface OpenAPIResponse extends Extensions {
+    description?: string
+    headers?: Record<string, Ref<OpenAPIHeader>>
+    content?: Record<string, OpenAPIMediaType>
+    links?: Record<string, Ref<OpenAPILink>>
+}
+
+/** Keyed by status code, status range (`2XX`) or `default`. */
+export type OpenAPIResponses = Record<string, Ref<OpenAPIResponse>>
+
+/** Keyed by runtime expression, e.g. `{$request.body#/callbackUrl}`. */
+export type OpenAPICallback = Record<string, Ref<OpenAPIPathItem>>
+
+export type OpenAPISecurityRequirement = Record<string, string[]>
+
+export interface OpenAPIOperation extends Extensions {
+    operationId?: string
+    tags?: string[]
+    summary?: string
+    description?: string
+    externalDocs?: OpenAPIExternalDocs
+    parameters?: Ref<OpenAPIParameter>[]
+    requestBody?: Ref<OpenAPIRequestBody>
+    responses?: OpenAPIResponses
+    callbacks?: Record<string, Ref<OpenAPICallback>>
+    deprecated?: boolean
+    security?: OpenAPISecurityRequirement[]
+    servers?: OpenAPIServer[]
+}
+
+export type OpenAPIPathItem = {
+    [method in Methods | 'trace']?: OpenAPIOperation
+} & Extensions & {
+        $ref?: string
+        summary?: string
+        description?: string
+        servers?: OpenAPIServer[]
+        parameters?: Ref<OpenAPIParameter>[]
+    }
+
+export interface OpenAPIOAuthFlow extends Extensions {
+    authorizationUrl?: string
+    tokenUrl?: string
+    refreshUrl?: string
+    scopes: Record<string, string>
+}
+
+export interface OpenAPIOAuthFlows extends Extensions {
+    implicit?: OpenAPIOAuthFlow
+    password?: OpenAPIOAuthFlow
+    clientCredentials?: OpenAPIOAuthFlow
+    authorizationCode?: OpenAPIOAuthFlow
+}
+
+export type OpenAPISecurityScheme = Extensions & { description?: string } & (
+        | { type: 'apiKey'; name: string; in: 'query' | 'header' | 'cookie' }
+        | { type: 'http'; scheme: string; bearerFormat?: string }
+        | { type: 'oauth2'; flows: OpenAPIOAuthFlows }
+        | { type: 'openIdConnect'; openIdConnectUrl: string }
+        | { type: 'mutualTLS' }
+    )
+
+export interface OpenAPIComponents extends Extensions {
+    schemas?: Record<string, OpenAPISchema>
+    responses?: Record<string, Ref<OpenAPIResponse>>
+    parameters?: Record<string, Ref<OpenAPIParameter>>
+    examples?: Record<string, Ref<OpenAPIExample>>
+    requestBodies?: Record<string, Ref<OpenAPIRequestBody>>
+    headers?: Record<string, Ref<OpenAPIHeader>>
+    securitySchemes?: Record<string, Ref<OpenAPISecurityScheme>>
+    links?: Record<string, Ref<OpenAPILink>>
+    callbacks?: Record<string, Ref<OpenAPICallback>>
+    /** 3.1 */
+    pathItems?: Record<string, Ref<OpenAPIPathItem>>
+}
+
+export interface OpenAPISpec extends Extensions {
+    openapi?: string
+    info?: OpenAPIInfo
+    /** 3.1 */
+    jsonSchemaDialect?: string
+    servers?: OpenAPIServer[]
+    paths?: Record<string, OpenAPIPathItem>
+    /** 3.1 */
+    webhooks?: Record<string, Ref<OpenAPIPathItem>>
+    components?: OpenAPIComponents
+    security?: OpenAPISecurityRequirement[]
+    tags?: OpenAPITag[]
+    externalDocs?: OpenAPIExternalDocs
+}
+
+/**
+ * Thrown when a `$ref` cannot be resolved or is part of a reference cycle.
+ */
+export class SpecReferenceError extends Error {
+    constructor(public readonly ref: string, message: string) {
+        super(message)
+        this.name = 'SpecReferenceError'
+    }
+}
+
+export const HTTP_METHODS: Methods[] = ['get', 'post', 'put', 'delete', 'patch', 'options', 'head']
+
+export const isReference = (value: any): value is OpenAPIReference =>
+    typeof value === 'object' && value !== null && typeof value.$ref === 'string'
+
+const getPointer = (spec: OpenAPISpec, ref: string): any => {
+    if (!ref.startsWith('#')) {
+        throw new SpecReferenceError(ref, `External reference ${ref} must be bundled with loadSpec first`)
+    }
+    return ref
+        .slice(1)
+        .split('/')
+        .slice(1)
+        .map((segment) => decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~'))
+        .reduce((node: any, segment) => {
+            if (node === undefined || node === null || !(segment in node)) {
+                throw new SpecReferenceError(ref, `Cannot resolve reference ${ref}`)
+            }
+            return node[segment]
+        }, spec)
+}
+
+/**
+ * Follows a chain of `$ref`s to the referenced object. Throws `SpecReferenceError` on missing targets and cycles.
+ */
+export const resolveRef = <T>(spec: OpenAPISpec, value: Ref<T>): T => {
+    const seen: string[] = []
+    let current: any = value
+    while (isReference(current)) {
+        if (seen.includes(current.$ref)) {
+            throw new SpecReferenceError(current.$ref, `Circular reference: ${[...seen, current.$ref].join(' -> ')}`)
+        }
+        seen.push(current.$ref)
+        current = getPointer(spec, current.$ref)
+    }
+    return current as T
+}
+
+/**
+ * Converts Swagger 2.0 documents to OpenAPI 3 and resolves path items that are references.
+ */
+export const normalizeSpec = (spec: OpenAPISpec | SwaggerSpec): OpenAPISpec => {
+    const document = isSwaggerSpec(spec) ? convertSwaggerSpec(spec) : (spec as OpenAPISpec)
+    const paths: Record<string, OpenAPIPathItem> = {}
+    for (const [path, pathItem] of Object.entries(document.paths ?? {})) {
+        paths[path] = resolvePathItem(document, pathItem)
+    }
+    return { ...document, paths }
+}
+
+/**
+ * Resolves a path item that is a reference, merging the fields declared next to the `$ref`.
+ */
+export const resolvePathItem = (spec: OpenAPISpec, pathItem: Ref<OpenAPIPathItem>): OpenAPIPathItem => {
+    if (!isReference(pathItem)) return pathItem
+    const { $ref, ...rest } = pathItem as OpenAPIPathItem
+    return { ...resolvePathItem(spec, resolveRef<OpenAPIPathItem>(spec, { $ref: $ref! })), ...rest }
+}
+
+/**
+ * Merges path item level parameters with operation level parameters.
+ * Operation parameters override path item parameters with the same name and location.
+ */
+export const mergeParameters = (
+    pathParameters: OpenAPIParameter[] = [],
+    operationParameters: OpenAPIParameter[] = [],
+): OpenAPIParameter[] => {
+    const overridden = (p: OpenAPIParameter) => operationParameters.some((o) => o.name === p.name && o.in === p.in)
+    return [...pathParameters.filter((p) => !overridden(p)), ...operationParameters]
+}
+
+/**
+ * An operation with all references in its parameters, request body and responses resolved.
+ */
+export interface SpecOperation {
+    path: string
+    method: Methods
+    operation: OpenAPIOperation
+    pathItem: OpenAPIPathItem
+    parameters: OpenAPIParameter[]
+    requestBody?: OpenAPIRequestBody
+    responses: Record<string, OpenAPIResponse>
+    servers?: OpenAPIServer[]
+    security?: OpenAPISecurityRequirement[]
+}
+
+export const resolveOperation = (
+    spec: OpenAPISpec,
+    path: string,
+    method: Methods,
+    pathItem: OpenAPIPathItem,
+    operation: OpenAPIOperation,
+): SpecOperation => {
+    const resolveAll = <T>(values: Ref<T>[] = []) => values.map((value) => resolveRef(spec, value))
+    const responses: Record<string, OpenAPIResponse> = {}
+    for (const [status, response] of Object.entries(operation.responses ?? {})) {
+        responses[status] = resolveRef(spec, response)
+    }
+    const servers = operation.servers?.length ? operation.servers : pathItem.servers
+    return {
+        path,
+        method,
+        operation,
+        pathItem,
+        parameters: mergeParameters(resolveAll(pathItem.parameters), resolveAll(operation.parameters)),
+        requestBody: operation.requestBody ? resolveRef(spec, operation.requestBody) : undefined,
+        responses,
+        servers: servers?.length ? servers : undefined,
+        security: operation.security ?? spec.security,
+    }
+}
+
+/**
+ * Lists every operation of a normalized spec, in declaration order.
+ */
+export const getOperations = (spec: OpenAPISpec): SpecOperation[] => {
+    const operations: SpecOperation[] = []
+    for (const [path, pathItem] of Object.entries(spec.paths ?? {})) {
+        for (const method of HTTP_METHODS) {
+            const operation = pathItem[method]
+            if (operation) operations.push(resolveOperation(spec, path, method, pathItem, operation))
+        }
+    }
+    return operations
+}
@@ -0,0 +1,52 @@
+import type { ApiErrorResponse, ApiRequestConfig, ApiResponse, PROBLEM_CODE } from './wrapper'
+
+/**
+ * A non-ok result, thrown by clients in the `throw` and `data` response modes and by `unwrap`.
+ */
+export class ApiError<ErrorBody = any> extends Error {
+    readonly problem: PROBLEM_CODE
+    readonly status?: number
+    readonly data?: ErrorBody
+    readonly operationId?: string
+
+    constructor(
+        readonly response: ApiErrorResponse<ErrorBody>,
+        operationId = (response.config as ApiRequestConfig | undefined)?.operationId,
+    ) {
+        const { problem, status, config } = response
+        const request = operationId ?? `${(config?.method ?? 'get').toUpperCase()} ${config?.url ?? ''}`.trim()
+        super(`${request} failed with ${problem}${status ? ` (status ${status})` : ''}`, {
+            cause: response.originalError,
+        })
+        this.name = 'ApiError'
+        this.problem = problem
+        this.status = status
+        this.data = response.data
+        this.operationId = operationId
+    }
+}
+
+/**
+ * Returns the data of an ok response and throws `ApiError` otherwise.
+ */
+export const unwrap = <T, ErrorBody = any>(response: ApiResponse<T, ErrorBody>): T => {
+    if (response.ok) return response.data
+    throw new ApiError(response)
+}
+
+/**
+ * Whether a value is an `ApiError` or a non-ok response, optionally with one of the given problems.
+ */
+export const isProblem = <ErrorBody = any>(
+    value: unknown,
+    problem?: PROBLEM_CODE | PROBLEM_CODE[],
+): value is ApiError<ErrorBody> | ApiErrorResponse<ErrorBody> => {
+    const actual =
+        value instanceof ApiError
+            ? value.problem
+            : typeof value === 'object' && value !== null && (value as ApiResponse).ok === false
+            ? (value as ApiErrorResponse<ErrorBody>).problem
+            : undefined
+    if (actual === undefined) return false
+    return problem === undefined || (Array.isArray(problem) ? problem.includes(actual) : problem === actual)
+}
@@ -0,0 +1,255 @@
+import { AxiosError, AxiosHeaders, AxiosResponse } from 'axios'
+import { getRequestUrl } from './cache'
+import { ApiRequestConfig, settleResponse, TransportLayer } from './wrapper'
+
+export interface FixtureRequest {
+    method: string
+    /** Path and query of the request, with the query sorted. */
+    url: string
+    headers: Record<string, string>
+    body?: any
+}
+
+export interface FixtureResponse {
+    status: number
+    statusText: string
+    headers: Record<string, string>
+    data: any
+    /** Set when binary data is stored as a base64 string. */
+    encoding?: 'base64'
+}
+
+export interface Fixture {
+    operationId?: string
+    request: FixtureRequest
+    response: FixtureResponse
+}
+
+/**
+ * Reads and writes the fixtures of one operation. Names are operationIds, or the method and path of requests
+ * that were not made by a method generated from a spec.
+ */
+export interface FixtureStorage {
+    read(name: string): Promise<Fixture[]>
+    write(name: string, fixtures: Fixture[]): Promise<void>
+}
+
+export type BodyMatcher = (actual: any, recorded: any, request: FixtureRequest) => boolean
+
+export interface FixturesConfig {
+    /** `record` sends requests and stores them, `replay` serves stored responses. */
+    mode: 'record' | 'replay'
+    /** Directory of the fixture files, one JSON file per operation. Ignored when `storage` is set. */
+    dir?: string
+    storage?: FixtureStorage
+    /** Request headers that are not compared when matching. Redacted headers are never compared. */
+    ignoreHeaders?: string[]
+    /** Body comparisons keyed by operationId. Bodies are compared for deep equality by default. */
+    bodyMatchers?: Record<string, BodyMatcher>
+    /** Fails requests without a matching fixture in replay mode instead of sending them. */
+    strict?: boolean
+    /** Headers whose values are replaced before fixtures are written. Defaults to auth and cookie headers. */
+    redactHeaders?: string[]
+    /**
+     * Query parameters whose values are replaced before requests are matched and fixtures are written. Defaults to
+     * the query parameters of the spec's `apiKey` schemes in clients created with `createTypedApi`.
+     */
+    redactQueryParams?: string[]
+    /** Changes fixtures before they are written, e.g. to remove secrets from bodies. */
+    redact?: (fixture: Fixture) => Fixture
+}
+
+export const REDACTED = '[REDACTED]'
+
+const DEFAULT_REDACTED_HEADERS = ['authorization', 'proxy-authorization', 'cookie', 'set-cookie', 'x-api-key']
+
+// Differ on every request when telemetry propagates trace context
+const TRACE_HEADERS = ['traceparent', 'tracestate']
+
+/**
+ * Stores fixtures as JSON files in a directory. Only available in Node.
+ */
+export const createFileFixtureStorage = (dir: string): FixtureStorage => {
+    const getFile = async (name: string) => {
+        const { join } = await import('path')
+        return join(dir, `${name}.json`)
+    }
+    return {
+        async read(name) {
+            const { readFile } = await import('fs/promises')
+            try {
+                return JSON.parse(await readFile(await getFile(name), 'utf8'))
+            } catch (e: any) {
+                if (e?.code === 'ENOENT') return []
+                throw e
+            }
+        },
+        async write(name, fixtures) {
+            const { mkdir, writeFile } = await import('fs/promises')
+            await mkdir(dir, { recursive: true })
+            await writeFile(await getFile(name), `${JSON.stringify(fixtures, null, 2)}\n`)
+        },
+    }
+}
+
+const getFixtureName = (config: ApiRequestConfig, request: FixtureRequest) =>
+    config.operationId ?? `${request.method}${request.url.split('?')[0]}`.replace(/[^\w.-]+/g, '_')
+
+const normalizeHeaders = (headers: any): Record<string, string> =>
+    Object.fromEntries(
+        Object.entries(AxiosHeaders.from(headers ?? {}).toJSON(true))
+            .filter(([, value]) => value !== undefined && value !== null && value !== false)
+            .map(([name, value]) => [name.toLowerCase(), String(value)]),
+    )
+
+const normalizeBody = (data: any) => {
+    if (data instanceof URLSearchParams) return data.toString()
+    if (typeof data !== 'string') return data ?? undefined
+    try {
+        return JSON.parse(data)
+    } catch {
+        return data
+    }
+}
+
+const toFixtureRequest = (config: ApiRequestConfig, redactedParams: string[]): FixtureRequest => {
+    const url = getRequestUrl(config)
+    for (const name of redactedParams) {
+        if (url.searchParams.has(name)) url.searchParams.set(name, REDACTED)
+    }
+    return {
+        method: (config.method ?? 'get').toLowerCase(),
+        url: `${url.pathname}${url.search}`,
+        headers: normalizeHeaders(config.headers),
+        body: normalizeBody(config.data),
+    }
+}
+
+const toFixtureResponse = (response: AxiosResponse): FixtureResponse => {
+    const { status, statusText, data } = response
+    const headers = normalizeHeaders(response.headers)
+    if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+        const bytes = ArrayBuffer.isView(data) ? data : new Uint8Array(data)
+        const base64 = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).toString('base64')
+        return { status, statusText, headers, data: base64, encoding: 'base64' }
+    }
+    return { status, statusText, headers, data: normalizeBody(data) }
+}
+
+const isEqual = (a: any, b: any): boolean => {
+    if (a === b) return true
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false
+    if (Array.isArray(a) !== Array.isArray(b)) return false
+    const keys = Object.keys(a)
+    return keys.length === Object.keys(b).length && keys.every((key) => isEqual(a[key], b[key]))
+}
+
+/**
+ * Records request and response pairs to fixtures, or replays them without touching the network.
+ * Repeated identical requests are replayed in the order they were recorded.
+ */
+export const createFixturesLayer = (config: FixturesConfig): TransportLayer => {
+    if (!config.storage && !config.dir) throw new Error('Fixtures need either a directory or a storage')
+    const storage = config.storage ?? createFileFixtureStorage(config.dir!)
+    const redacted = (config.redactHeaders ?? DEFAULT_REDACTED_HEADERS).map((name) => name.toLowerCase())
+    const redactedParams = config.redactQueryParams ?? []
+    const ignored = [...redacted, ...TRACE_HEADERS, ...(config.ignoreHeaders ?? []).map((name) => name.toLowerCase())]
+    const loaded = new Map<string, Promise<Fixture[]>>()
+    const writes = new Map<string, Promise<void>>()
+    // Fixtures replayed, or replaced by a new recording, during this session
+    const used = new Set<Fixture>()
+
+    const load = (name: string) => {
+        if (!loaded.has(name)) loaded.set(name, storage.read(name))
+        return loaded.get(name)!
+    }
+
+    const headersMatch = (actual: Record<string, string>, recorded: Record<string, string>) => {
+        const names = new Set([...Object.keys(actual), ...Object.keys(recorded)])
+        return [...names].every((name) => ignored.includes(name) || actual[name] === recorded[name])
+    }
+
+    const matches = (fixture: Fixture, request: FixtureRequest, operationId?: string) => {
+        const recorded = fixture.request
+        if (recorded.method !== request.method || recorded.url !== request.url) return false
+        if (!headersMatch(request.headers, recorded.headers)) return false
+        const matchBody = operationId !== undefined ? config.bodyMatchers?.[operationId] : undefined
+        return matchBody ? matchBody(request.body, recorded.body, request) : isEqual(request.body, recorded.body)
+    }
+
+    const find = (fixtures: Fixture[], request: FixtureRequest, operationId?: string) => {
+        const candidates = fixtures.filter((fixture) => matches(fixture, request, operationId))
+        return candidates.find((fixture) => !used.has(fixture)) ?? candidates[candidates.length - 1]
+    }
+
+    const redactFixture = (fixture: Fixture): Fixture => {
+        const redactHeaders = (headers: Record<string, string>) =>
+            Object.fromEntries(
+                Object.entries(headers).map(([name, value]) => [name, redacted.includes(name) ? REDACTED : value]),
+            )
+        const result: Fixture = {
+            ...fixture,
+            request: { ...fixture.request, headers: redactHeaders(fixture.request.headers) },
+            response: { ...fixture.response, headers: redactHeaders(fixture.response.headers) },
+        }
+        return config.redact ? config.redact(result) : result
+    }
+
+    const record = async (name: string, fixture: Fixture) => {
+        const fixtures = await load(name)
+        const previous = fixtures.find(
+            (recorded) => !used.has(recorded) && matches(recorded, fixture.request, fixture.operationId),
+        )
+        const stored = redactFixture(fixture)
+        used.add(stored)
+        if (previous) fixtures.splice(fixtures.indexOf(previous), 1, stored)
+        else fixtures.push(stored)
+
+        const write = (writes.get(name) ?? Promise.resolve()).then(() => storage.write(name, fixtures))
+        writes.set(name, write)
+        await write
+    }
+
+    const replay = (fixture: Fixture, requestConfig: ApiRequestConfig): AxiosResponse => {
+        const { status, statusText, headers, data, encoding } = fixture.response
+        return settleResponse({
+            data: encoding === 'base64' ? Buffer.from(data, 'base64') : data,
+            status,
+            statusText,
+            headers: new AxiosHeaders(headers),
+            config: requestConfig,
+            request: undefined,
+        })
+    }
+
+    return async (requestConfig, next): Promise<AxiosResponse> => {
+        if (requestConfig.responseType === 'stream') return next(requestConfig)
+        const request = toFixtureRequest(requestConfig, redactedParams)
+        const name = getFixtureName(requestConfig, request)
+        const operationId = requestConfig.operationId
+
+        if (config.mode === 'replay') {
+            const fixture = find(await load(name), request, operationId)
+            if (fixture) {
+                used.add(fixture)
+                return replay(fixture, requestConfig)
+            }
+            if (!config.strict) return next(requestConfig)
+            throw new AxiosError(
+                `No fixture matches ${request.method.toUpperCase()} ${request.url}`,
+                'ERR_FIXTURE_NOT_FOUND',
+                requestConfig,
+            )
+        }
+
+        try {
+            const response = await next(requestConfig)
+            await record(name, { operationId, request, response: toFixtureResponse(response) })
+            return response
+        } catch (e) {
+            const response = (e as AxiosError).response
+            if (response) await record(name, { operationId, request, response: toFixtureResponse(response) })
+            throw e
+        }
+    }
+}
@@ -1,2 +1,24 @@
 export * from './wrapper'
-export * from './openapi' 
\ No newline at end of file
+export * from './errors'
+export * from './openapi'
+export * from './middleware'
+export * from './document'
+export * from './swagger'
+export * from './serializer'
+export * from './retry'
+export * from './cache'
+export * from './dedupe'
+export * from './queue'
+export * from './breaker'
+export * from './fixtures'
+export * from './telemetry'
+export * from './security'
+export * from './servers'
+export * from './loader'
+export * from './validation'
+export * from './body'
+export * from './stream'
+export * from './pagination'
+export * from './mock'
+export * from './codegen'
+export * from './webhooks'
@@ -0,0 +1,153 @@
+import axios from 'axios'
+import { parse as parseYaml } from 'yaml'
+
+/**
+ * Thrown when a spec or one of the documents it references cannot be read or parsed.
+ */
+export class SpecLoadError extends Error {
+    constructor(public readonly location: string, cause: unknown) {
+        super(`Failed to load OpenAPI spec from ${location}: ${cause instanceof Error ? cause.message : cause}`, {
+            cause,
+        })
+        this.name = 'SpecLoadError'
+    }
+}
+
+const hasScheme = (location: string) => /^[a-z][a-z0-9+.-]*:/i.test(location) && !/^[a-z]:[\\/]/i.test(location)
+
+const isNode = () => typeof process !== 'undefined' && !!process.versions?.node
+
+/**
+ * Turns filesystem paths into `file://` URLs so that every location can be resolved as a URL.
+ * Outside Node relative locations are kept and requested over HTTP.
+ */
+export const toSpecLocation = async (location: string): Promise<string> => {
+    if (hasScheme(location) || !isNode()) return location
+    const [{ resolve }, { pathToFileURL }] = await Promise.all([import('path'), import('url')])
+    return pathToFileURL(resolve(location)).href
+}
+
+export const resolveLocation = (base: string, ref: string): string => {
+    try {
+        return new URL(ref, base).href
+    } catch {
+        return base.replace(/[^/]*$/, '') + ref
+    }
+}
+
+const readLocation = async (location: string): Promise<string> => {
+    if (location.startsWith('file:')) {
+        const { readFile } = await import('fs/promises')
+        return readFile(new URL(location), 'utf8')
+    }
+    const res = await axios.get<string>(location, { responseType: 'text', transformResponse: (data) => data })
+    return res.data
+}
+
+export const parseSpecDocument = (text: string): any => {
+    const trimmed = text.trim()
+    return trimmed.startsWith('{') || trimmed.startsWith('[') ? JSON.parse(trimmed) : parseYaml(text)
+}
+
+const getPointer = (document: any, pointer: string): any => {
+    const segments = pointer
+        .split('/')
+        .slice(1)
+        .map((segment) => decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~'))
+    return segments.reduce((node, segment) => {
+        if (node === undefined || node === null || !(segment in node)) {
+            throw new Error(`Cannot resolve JSON pointer #${pointer}`)
+        }
+        return node[segment]
+    }, document)
+}
+
+/**
+ * Reads a spec and inlines every `$ref` to another document, producing a single self-contained spec.
+ * References that are part of a cycle are moved to `components.schemas` and referenced from there.
+ */
+export const bundleSpec = async (location: string): Promise<any> => {
+    const rootLocation = await toSpecLocation(location)
+    const documents = new Map<string, Promise<any>>()
+    const hoisted = new Map<string, string>()
+    const resolving = new Set<string>()
+    const schemas: Record<string, any> = {}
+
+    const load = (documentLocation: string) => {
+        if (!documents.has(documentLocation)) {
+            documents.set(
+                documentLocation,
+                readLocation(documentLocation)
+                    .then(parseSpecDocument)
+                    .catch((e) => {
+                        throw e instanceof SpecLoadError
+                            ? e
+                            : new SpecLoadError(documentLocation === rootLocation ? location : documentLocation, e)
+                    }),
+            )
+        }
+        return documents.get(documentLocation)!
+    }
+
+    const root = await load(rootLocation)
+
+    const hoist = (key: string, pointer: string) => {
+        const base = (pointer.split('/').pop() || key.replace(/#.*$/, '').split('/').pop() || 'Schema').replace(
+            /\.(json|ya?ml)$/i,
+            '',
+        )
+        let name = base
+        for (let i = 2; name in schemas || name in (root.components?.schemas ?? {}); i++) name = `${base}${i}`
+        hoisted.set(key, name)
+        return name
+    }
+
+    const resolveExternal = async (documentLocation: string, pointer: string): Promise<any> => {
+        const key = `${documentLocation}#${pointer}`
+        if (hoisted.has(key)) return { $ref: `#/components/schemas/${hoisted.get(key)}` }
+        if (resolving.has(key)) return { $ref: `#/components/schemas/${hoist(key, pointer)}` }
+
+        resolving.add(key)
+        const document = await load(documentLocation)
+        let target: any
+        try {
+            target = getPointer(document, pointer)
+        } catch (e) {
+            throw new SpecLoadError(key, e)
+        }
+        const value = await walk(target, documentLocation)
+        resolving.delete(key)
+
+        const name = hoisted.get(key)
+        if (name === undefined) return value
+        schemas[name] = value
+        return { $ref: `#/components/schemas/${name}` }
+    }
+
+    const walk = async (node: any, documentLocation: string): Promise<any> => {
+        if (Array.isArray(node)) {
+            const items = []
+            for (const item of node) items.push(await walk(item, documentLocation))
+            return items
+        }
+        if (!node || typeof node !== 'object') return node
+
+        if (typeof node.$ref === 'string') {
+            const ref: string = node.$ref
+            if (ref.startsWith('#') && documentLocation === rootLocation) return node
+            const [target, pointer = ''] = resolveLocation(documentLocation, ref).split('#')
+            if (target === rootLocation) return { ...node, $ref: `#${pointer}` }
+            return resolveExternal(target, pointer)
+        }
+
+        const result: Record<string, any> = {}
+        for (const [key, value] of Object.entries(node)) result[key] = await walk(value, documentLocation)
+        return result
+    }
+
+    const bundled = await walk(root, rootLocation)
+    if (Object.keys(schemas).length) {
+        bundled.components = { ...bundled.components, schemas: { ...bundled.components?.schemas, ...schemas } }
+    }
+    return bundled
+}
@@ -0,0 +1,65 @@
+import type { SpecOperation } from './document'
+import type { OperationConfig, OperationMetadata } from './openapi'
+import type { ApiResponse, Methods } from './wrapper'
+
+/**
+ * The call of an operation as seen by middlewares.
+ */
+export interface MiddlewareContext {
+    operationId: string
+    /** Path template of the operation, e.g. `/users/{id}`. */
+    path: string
+    method: Methods
+    params: any
+    body: any
+    config: OperationConfig
+    operation: SpecOperation
+    metadata: OperationMetadata
+    /** Requested instead of the path template, e.g. when following a pagination link. */
+    url?: string
+}
+
+/**
+ * Calls the rest of the pipeline, with the current context unless another one is given.
+ * It can be called more than once, e.g. to retry.
+ */
+export type MiddlewareNext = (context?: MiddlewareContext) => Promise<ApiResponse<any>>
+
+/**
+ * Wraps the calls of operations. A middleware can change the context, settle the call without calling `next`,
+ * call `next` several times or transform the response.
+ */
+export type Middleware = (context: MiddlewareContext, next: MiddlewareNext) => Promise<ApiResponse<any>>
+
+/**
+ * Limits a middleware to some operations. Without a scope a middleware applies to every operation.
+ */
+export interface MiddlewareScope {
+    operations?: string[]
+    tags?: string[]
+}
+
+export interface ScopedMiddleware {
+    middleware: Middleware
+    scope?: MiddlewareScope
+}
+
+export const isInScope = (metadata: OperationMetadata, scope?: MiddlewareScope): boolean =>
+    !scope ||
+    !!scope.operations?.includes(metadata.operationId) ||
+    !!scope.tags?.some((tag) => metadata.tags.includes(tag))
+
+/**
+ * Runs a context through middlewares in order, ending with `handler`.
+ */
+export const runMiddleware = (
+    middlewares: Middleware[],
+    context: MiddlewareContext,
+    handler: (context: MiddlewareContext) => Promise<ApiResponse<any>>,
+): Promise<ApiResponse<any>> => {
+    const dispatch = async (index: number, current: MiddlewareContext): Promise<ApiResponse<any>> =>
+        index < middlewares.length
+            ? middlewares[index](current, (next = current) => dispatch(index + 1, next))
+            : handler(current)
+    return dispatch(0, context)
+}
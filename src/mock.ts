@@ -0,0 +1,275 @@
+import { AxiosError, AxiosHeaders, AxiosResponse, CanceledError } from 'axios'
+import { z } from 'zod'
+import { createCircuitOpenError } from './breaker'
+import { getRequestUrl } from './cache'
+import { OpenAPIExample, OpenAPIMediaType, OpenAPISchema, OpenAPISpec, resolveRef, SpecOperation } from './document'
+import { sleep } from './retry'
+import { ERR_VALIDATION } from './validation'
+import { ApiRequestConfig, PROBLEM_CODE, settleResponse, TransportLayer } from './wrapper'
+
+/**
+ * The request as seen by mock handlers, with path parameters extracted from the URL and the body parsed.
+ */
+export interface MockRequest {
+    operationId: string
+    method: string
+    url: string
+    pathParams: Record<string, string>
+    query: Record<string, any>
+    headers: Record<string, any>
+    body: any
+}
+
+export type MockProblem = Exclude<PROBLEM_CODE, PROBLEM_CODE.REQUEST_VALIDATION_ERROR>
+
+export interface MockResponse {
+    /** Defaults to the lowest declared 2xx status. */
+    status?: number
+    /** Static data, or a function of the request. Defaults to the spec example or data generated from the schema. */
+    data?: any | ((request: MockRequest) => any)
+    headers?: Record<string, string>
+    /** Name of the example in the response `examples` to serve. */
+    example?: string
+    /** Milliseconds to wait before responding. */
+    delay?: number
+    /** Fails the request with this problem instead of responding. */
+    problem?: MockProblem
+}
+
+export interface MockConfig {
+    /** Default delay for every operation in milliseconds. */
+    delay?: number
+    /** Overrides keyed by operationId. */
+    operations?: Record<string, MockResponse | ((request: MockRequest) => MockResponse | Promise<MockResponse>)>
+}
+
+const MAX_DEPTH = 8
+
+const FORMAT_EXAMPLES: Record<string, any> = {
+    'date-time': '1970-01-01T00:00:00.000Z',
+    date: '1970-01-01',
+    time: '00:00:00',
+    email: 'user@example.com',
+    uuid: '00000000-0000-4000-8000-000000000000',
+    uri: 'https://example.com',
+    url: 'https://example.com',
+    hostname: 'example.com',
+    ipv4: '127.0.0.1',
+    ipv6: '::1',
+    byte: '',
+    binary: '',
+}
+
+/**
+ * Generates a value that matches a schema, preferring its `example`, `default`, `const` and `enum` values.
+ */
+export const generateFromSchema = (spec: OpenAPISpec, schemaOrRef: OpenAPISchema | undefined, depth = 0): any => {
+    if (!schemaOrRef || depth > MAX_DEPTH) return undefined
+    const schema = resolveRef<OpenAPISchema>(spec, schemaOrRef as OpenAPISchema)
+
+    if (schema.example !== undefined) return schema.example
+    if (schema.examples?.length) return schema.examples[0]
+    if (schema.const !== undefined) return schema.const
+    if (schema.default !== undefined) return schema.default
+    if (schema.enum?.length) return schema.enum[0]
+
+    if (schema.allOf) {
+        return schema.allOf
+            .map((part) => generateFromSchema(spec, part, depth + 1))
+            .reduce((merged, part) => (typeof part === 'object' && part !== null ? { ...merged, ...part } : merged), {})
+    }
+    if (schema.oneOf?.length || schema.anyOf?.length) {
+        return generateFromSchema(spec, (schema.oneOf ?? schema.anyOf)![0], depth + 1)
+    }
+
+    const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : []
+    const type = types.find((t) => t !== 'null') ?? (schema.properties ? 'object' : schema.items ? 'array' : types[0])
+    switch (type) {
+        case 'null':
+            return null
+        case 'boolean':
+            return true
+        case 'integer':
+        case 'number': {
+            const minimum = typeof schema.exclusiveMinimum === 'number' ? schema.exclusiveMinimum + 1 : schema.minimum
+            return minimum ?? (schema.maximum !== undefined ? Math.min(0, schema.maximum) : 0)
+        }
+        case 'string': {
+            const value = (schema.format && FORMAT_EXAMPLES[schema.format]) ?? 'string'
+            return schema.minLength && value.length < schema.minLength ? value.padEnd(schema.minLength, 'x') : value
+        }
+        case 'array': {
+            const item = generateFromSchema(spec, schema.items, depth + 1)
+            return item === undefined ? [] : Array.from({ length: Math.max(1, schema.minItems ?? 1) }, () => item)
+        }
+        case 'object': {
+            const result: Record<string, any> = {}
+            for (const [name, property] of Object.entries(schema.properties ?? {})) {
+                const resolved = resolveRef<OpenAPISchema>(spec, property)
+                if (resolved.writeOnly) continue
+                const value = generateFromSchema(spec, property, depth + 1)
+                if (value !== undefined) result[name] = value
+            }
+            return result
+        }
+        default:
+            return undefined
+    }
+}
+
+const getMediaType = (content: Record<string, OpenAPIMediaType> | undefined) => {
+    const types = Object.keys(content ?? {})
+    const type = types.find((t) => /json/i.test(t)) ?? types[0]
+    return type ? { type, mediaType: content![type] } : undefined
+}
+
+const getExample = (spec: OpenAPISpec, mediaType: OpenAPIMediaType, name?: string) => {
+    if (mediaType.example !== undefined && name === undefined) return { found: true, value: mediaType.example }
+    const examples = Object.entries(mediaType.examples ?? {})
+    const example = name !== undefined ? examples.find(([key]) => key === name) : examples[0]
+    if (!example) return { found: false, value: undefined }
+    return { found: true, value: resolveRef<OpenAPIExample>(spec, example[1]).value }
+}
+
+const getDefaultStatus = (operation: SpecOperation) => {
+    const statuses = Object.keys(operation.responses)
+        .filter((status) => /^2\d\d$/.test(status))
+        .map(Number)
+        .sort((a, b) => a - b)
+    return statuses[0] ?? 200
+}
+
+const getStatusForProblem = (operation: SpecOperation | undefined, problem: MockProblem) => {
+    const declared = Object.keys(operation?.responses ?? {}).map(Number)
+    if (problem === PROBLEM_CODE.CLIENT_ERROR) return declared.find((status) => status >= 400 && status < 500) ?? 400
+    if (problem === PROBLEM_CODE.SERVER_ERROR) return declared.find((status) => status >= 500) ?? 500
+    return undefined
+}
+
+/**
+ * Builds the body and content type of a response from the operation's examples or schemas.
+ */
+export const getMockResponseBody = (
+    spec: OpenAPISpec,
+    operation: SpecOperation,
+    status: number,
+    exampleName?: string,
+): { data: any; contentType?: string } => {
+    const response =
+        operation.responses[String(status)] ??
+        operation.responses[`${Math.floor(status / 100)}XX`] ??
+        operation.responses.default
+    const content = getMediaType(response?.content)
+    if (!content) return { data: undefined }
+
+    const example = getExample(spec, content.mediaType, exampleName)
+    const data = example.found ? example.value : generateFromSchema(spec, content.mediaType.schema)
+    return { data, contentType: content.type }
+}
+
+const parseBody = (data: any) => {
+    if (typeof data !== 'string') return data
+    try {
+        return JSON.parse(data)
+    } catch {
+        return data
+    }
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+const getPathParams = (template: string, pathname: string): Record<string, string> => {
+    const names = [...template.matchAll(/\{([^}]+)\}/g)].map((match) => match[1])
+    const pattern = template
+        .split(/\{[^}]+\}/)
+        .map(escapeRegExp)
+        .join('([^/]+)')
+    const values = new RegExp(`${pattern}$`).exec(pathname)?.slice(1) ?? []
+    return Object.fromEntries(names.map((name, i) => [name, decodeURIComponent(values[i] ?? '')]))
+}
+
+const toMockRequest = (config: ApiRequestConfig, operation: SpecOperation | undefined): MockRequest => {
+    const pathname = new URL(config.url ?? '', 'http://localhost').pathname
+    return {
+        operationId: config.operationId ?? '',
+        method: (config.method ?? 'get').toLowerCase(),
+        url: config.url ?? '',
+        pathParams: operation ? getPathParams(operation.path, pathname) : {},
+        query: { ...config.params },
+        headers: AxiosHeaders.from(config.headers).toJSON(),
+        body: parseBody(config.data),
+    }
+}
+
+const rejectWithProblem = (problem: MockProblem, config: ApiRequestConfig): never => {
+    switch (problem) {
+        case PROBLEM_CODE.CANCEL_ERROR:
+            throw new CanceledError(undefined, undefined, config)
+        case PROBLEM_CODE.TIMEOUT_ERROR:
+            throw new AxiosError(`timeout of ${config.timeout ?? 0}ms exceeded`, 'ECONNABORTED', config)
+        case PROBLEM_CODE.CONNECTION_ERROR:
+            throw new AxiosError('connect ECONNREFUSED', 'ECONNREFUSED', config)
+        case PROBLEM_CODE.NETWORK_ERROR:
+            throw new AxiosError('Network Error', AxiosError.ERR_NETWORK, config)
+        case PROBLEM_CODE.CIRCUIT_OPEN:
+            throw createCircuitOpenError(getRequestUrl(config).host, config)
+        default:
+            throw new AxiosError('Mocked request failed', undefined, config)
+    }
+}
+
+/**
+ * Serves responses from the spec instead of the network. Interceptors and validators see the same responses
+ * and errors as for real requests.
+ */
+export const createMockLayer = (
+    spec: OpenAPISpec,
+    operations: Map<string, SpecOperation>,
+    config: MockConfig = {},
+): TransportLayer => {
+    return async (requestConfig): Promise<AxiosResponse> => {
+        const operation = requestConfig.operationId ? operations.get(requestConfig.operationId) : undefined
+        const request = toMockRequest(requestConfig, operation)
+        const override = requestConfig.operationId ? config.operations?.[requestConfig.operationId] : undefined
+        const mock: MockResponse = (typeof override === 'function' ? await override(request) : override) ?? {}
+
+        const delay = mock.delay ?? config.delay
+        if (delay) await sleep(delay, requestConfig.signal)
+
+        const problem = mock.problem
+        const problemStatus = problem ? getStatusForProblem(operation, problem) : undefined
+        if (problem && problemStatus === undefined && problem !== PROBLEM_CODE.VALIDATION_ERROR) {
+            rejectWithProblem(problem, requestConfig)
+        }
+
+        const status = mock.status ?? problemStatus ?? (operation ? getDefaultStatus(operation) : 404)
+        const generated = operation ? getMockResponseBody(spec, operation, status, mock.example) : { data: undefined }
+        const data =
+            'data' in mock ? (typeof mock.data === 'function' ? await mock.data(request) : mock.data) : generated.data
+        const response: AxiosResponse = {
+            data,
+            status,
+            statusText: String(status),
+            headers: new AxiosHeaders({
+                ...(generated.contentType ? { 'content-type': generated.contentType } : {}),
+                ...mock.headers,
+            }),
+            config: requestConfig,
+            request: undefined,
+        }
+
+        if (problem === PROBLEM_CODE.VALIDATION_ERROR) {
+            // Fails without depending on a response validator being registered
+            const error = new AxiosError(
+                'Mocked response failed validation',
+                ERR_VALIDATION,
+                requestConfig,
+                undefined,
+                response,
+            )
+            error.cause = new z.ZodError([{ code: 'custom', path: [], message: 'Injected by the mock', input: data }])
+            throw error
+        }
+        return settleResponse(response)
+    }
+}
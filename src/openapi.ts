@@ -1,51 +1,230 @@
-import type { AxiosRequestConfig, AxiosResponse } from 'axios'
-import { ApiConfig, ApiErrorResponse, ApiInstance, ApiResponse, createApi, Methods, PROBLEM_CODE } from './wrapper'
-import axios from 'axios'
-import { z } from 'zod'
+import type { AxiosProgressEvent, AxiosRequestConfig, AxiosResponse } from 'axios'
+import { ApiConfig, ApiInstance, ApiOkResponse, ApiResponse, createApi, Methods, useTransport } from './wrapper'
+import { ApiError } from './errors'
+import { bundleSpec } from './loader'
+import { encodeRequestBody } from './body'
+import {
+    getOperations,
+    normalizeSpec,
+    OpenAPIOperation,
+    OpenAPIParameter,
+    OpenAPISecurityRequirement,
+    OpenAPISpec,
+    SpecOperation,
+} from './document'
+import {
+    isInScope,
+    Middleware,
+    MiddlewareContext,
+    MiddlewareScope,
+    runMiddleware,
+    ScopedMiddleware,
+} from './middleware'
+import { createMockLayer, MockConfig } from './mock'
+import { paginate, PaginatedMethod, PaginationStrategy, resolvePageUrl } from './pagination'
+import type { QueueOptions } from './queue'
+import { createSecurityLayer, Credentials, getApiKeyQueryParams } from './security'
+import { expandServerUrl, selectServer, ServerSelector } from './servers'
+import { createValidationTelemetryMiddleware, getTelemetry } from './telemetry'
+import { getResponseStreamFormat, requestEventStream, StreamOptions } from './stream'
+import type { SwaggerSpec } from './swagger'
+import { serializeCookieParams, serializeHeaderParam, serializePathParam, serializeQueryParams } from './serializer'
+import {
+    createRequestValidationMiddleware,
+    createResponseValidationMiddleware,
+    RequestValidator,
+    ResponseValidator,
+    selectResponseValidator,
+    ValidationBehaviour,
+} from './validation'
 
-export type AdaptedOperationMethods<OperationMethods> = {
+type WithMetadata<Method> = Method & { readonly metadata: OperationMetadata }
+
+type ErrorBodyOf<ErrorBodies, K> = K extends keyof ErrorBodies ? ErrorBodies[K] : any
+
+/**
+ * What operation methods resolve with. `envelope` resolves with an `ApiResponse` for every result, `throw` resolves
+ * with ok responses and throws `ApiError` for the rest, and `data` is like `throw` but resolves with the body.
+ */
+export type ResponseMode = 'envelope' | 'throw' | 'data'
+
+type ModeResult<R, E, Mode extends ResponseMode> = Mode extends 'data'
+    ? R
+    : Mode extends 'throw'
+    ? ApiOkResponse<R>
+    : ApiResponse<R, E>
+
+/**
+ * Wraps the return types of generated operation methods in `ApiResponse`, or in what the `Mode` resolves with.
+ * `ErrorBodies` maps operationIds to the body type of their non-2xx responses.
+ */
+export type AdaptedOperationMethods<OperationMethods, ErrorBodies = {}, Mode extends ResponseMode = 'envelope'> = {
     [K in keyof OperationMethods]: OperationMethods[K] extends (...args: infer A) => Promise<AxiosResponse<infer R>>
-        ? (...args: A) => Promise<ApiResponse<R>>
+        ? WithMetadata<(...args: A) => Promise<ModeResult<R, ErrorBodyOf<ErrorBodies, K>, Mode>>>
         : OperationMethods[K] extends (...args: infer A) => Promise<infer R>
-        ? (...args: A) => Promise<ApiResponse<R>>
+        ? WithMetadata<(...args: A) => Promise<ModeResult<R, ErrorBodyOf<ErrorBodies, K>, Mode>>>
+        : OperationMethods[K] extends Record<string, (...args: any[]) => Promise<any>>
+        ? AdaptedOperationMethods<OperationMethods[K], ErrorBodyOf<ErrorBodies, K>, Mode>
         : OperationMethods[K]
 }
 
-interface OpenAPIOperation {
-    operationId?: string
-}
+/**
+ * Names the client method of an operation. The returned name is sanitized like an operationId.
+ */
+export type OperationNameStrategy = (path: string, method: Methods, operation: OpenAPIOperation) => string
 
-type OpenAPIPathItem = {
-    [method in Methods]?: OpenAPIOperation
+/**
+ * Thrown when two operations get the same method name, or a name that is already a member of the api instance.
+ */
+export class OperationNameError extends Error {
+    constructor(public readonly operationName: string, message: string) {
+        super(message)
+        this.name = 'OperationNameError'
+    }
 }
 
-export interface OpenAPISpec {
-    paths: Record<string, OpenAPIPathItem>
+/**
+ * What to do with parameters that are neither declared by the operation nor present in the URL template.
+ * `query` sends them as query parameters, `drop` discards them and `error` throws.
+ */
+export type UnknownParamsPolicy = 'drop' | 'query' | 'error'
+
+export interface SplitParamsOptions {
+    parameters?: OpenAPIParameter[]
+    unknownParams?: UnknownParamsPolicy
 }
 
 export interface SplitParamsResult {
     url: string
     pathParams: Record<string, any>
     queryParams: Record<string, any>
+    headerParams: Record<string, any>
+    cookieParams: Record<string, any>
 }
 
-export const loadSpec = async (path: string): Promise<OpenAPISpec> => {
-    const res = await axios.get(path, { responseType: 'json' })
-    try {
-        return res.data
-    } catch (e) {
-        throw new Error(`Failed to load OpenAPI spec: ${res.status}`)
-    }
+export interface BuildClientOptions {
+    unknownParams?: UnknownParamsPolicy
+    /** Schemas for request parameters and bodies keyed by operationId, checked before the request is sent. */
+    requestValidators?: Record<string, RequestValidator>
+    requestValidationBehaviour?: ValidationBehaviour
+    /** Sends the output of the request schemas instead of the original values. */
+    useParsedRequest?: boolean
+    /** Credentials keyed by security scheme name, applied to the operations that require them. */
+    credentials?: Credentials
+    /** Server from the spec's `servers` to send requests to. Defaults to the first one when no `url` is given. */
+    server?: ServerSelector
+    /** Values for `{variable}` placeholders in server URLs. Declared defaults are used for the rest. */
+    serverVariables?: Record<string, string>
+    /** Reports upload progress of request bodies. A per-call `onUploadProgress` takes precedence. */
+    onUploadProgress?: (event: AxiosProgressEvent, operationId: string) => void
+    /** Pagination strategies keyed by operationId. Operations can also declare one in `x-pagination`. */
+    pagination?: Record<string, PaginationStrategy>
+    /** Serves responses from the spec's examples and schemas instead of sending requests. */
+    mock?: MockConfig | boolean
+    /** Names client methods. Defaults to the operationId, or the camel-cased method and path. */
+    operationName?: OperationNameStrategy
+    /** Groups methods under the camel-cased name of their first tag, e.g. `api.users.getUser`. */
+    namespaceByTag?: boolean
+    /**
+     * Receives warnings about calls to deprecated operations and parameters, and validation failures in the `warning`
+     * behaviour. Defaults to `console`.
+     */
+    logger?: Logger
+    /** What operation methods resolve with. Defaults to `envelope`. */
+    responseMode?: ResponseMode
+}
+
+export interface Logger {
+    warn(message: string, ...details: unknown[]): void
+}
+
+/**
+ * Describes the operation behind a client method. Available as `metadata` on every method.
+ */
+export interface OperationMetadata {
+    operationId: string
+    /** Tag namespace of the method when `namespaceByTag` is set. */
+    namespace?: string
+    path: string
+    method: Methods
+    tags: string[]
+    summary?: string
+    description?: string
+    deprecated: boolean
+    /** Names of the parameters marked as deprecated. */
+    deprecatedParameters: string[]
+}
+
+/**
+ * Looks up the operations of a client.
+ */
+export interface OperationRegistry {
+    get(operationId: string): OperationMetadata | undefined
+    byTag(tag: string): OperationMetadata[]
+    list(): OperationMetadata[]
+}
+
+/**
+ * An operation with the name of its client method and, with `namespaceByTag`, the namespace of the method.
+ * Names are unique across namespaces, because validators and other options are keyed by them.
+ */
+export interface NamedOperation {
+    name: string
+    namespace?: string
+    specOperation: SpecOperation
 }
 
 /**
- * Splits a flat parameters object into path parameters and query parameters.
+ * Members added to the api instance by `buildClientFromSpec`.
+ */
+export interface SpecClient<PathsDictionary> {
+    paths: PathsDictionary
+    /** Switches to another server from the spec, optionally changing server variables. */
+    setServer(server?: ServerSelector, variables?: Record<string, string>): void
+    /** Iterators over all pages of the operations that have a pagination strategy, keyed by operationId. */
+    paginate: Record<string, PaginatedMethod>
+    operations: OperationRegistry
+    /**
+     * Adds a middleware around the calls of operations, optionally limited to some operations or tags.
+     * Middlewares run in the order they were added. Returns a function that removes the middleware.
+     */
+    use(middleware: Middleware, scope?: MiddlewareScope): () => void
+}
+
+/**
+ * Per-call config accepted by the generated operation methods.
+ */
+export type OperationConfig = AxiosRequestConfig & StreamOptions & QueueOptions
+
+interface ClientState {
+    spec: OpenAPISpec
+    serverVariables: Record<string, string>
+    validators: Record<string, ResponseValidator>
+    validationBehaviour: ValidationBehaviour
+    /** Deprecated operations and parameters that were already warned about */
+    warned: Set<string>
+    middlewares: ScopedMiddleware[]
+    /** Validation, run after the middlewares added with `use` */
+    builtins: Middleware[]
+}
+
+/**
+ * Loads a spec from a URL, a `file://` URL or a filesystem path. JSON and YAML documents are supported and
+ * `$ref`s to other documents are bundled into the returned spec. Throws `SpecLoadError` on failure.
+ */
+export const loadSpec = async (path: string): Promise<OpenAPISpec> => bundleSpec(path)
+
+/**
+ * Splits a flat parameters object into path, query, header and cookie parameters.
  * Replaces placeholders in the URL with the values from `parameters`.
+ * Declared `parameters` decide where each value is sent, everything else is handled by `unknownParams`.
  */
 export const splitParams = (
     urlTemplate: string,
     parameters: Record<string, any> | string | number,
+    options: SplitParamsOptions = {},
 ): SplitParamsResult => {
+    const { parameters: declared = [], unknownParams = 'query' } = options
     let url = urlTemplate
     const pathParams: Record<string, any> = {}
 
@@ -64,35 +243,203 @@ export const splitParams = (
     url.replace(/\{([^}]+)\}/g, (_, key) => {
         if (key in paramsObj) {
             pathParams[key] = paramsObj[key]
-            url = url.replace(`{${key}}`, encodeURIComponent(String(paramsObj[key])))
+            const parameter = declared.find((p) => p.name === key && p.in === 'path')
+            url = url.replace(`{${key}}`, serializePathParam(key, paramsObj[key], parameter))
         } else {
             throw new Error(`Missing path parameter: ${key}`)
         }
         return ''
     })
 
-    const queryParams: Record<string, any> = { ...paramsObj }
-    Object.keys(pathParams).forEach((k) => delete queryParams[k])
+    const queryParams: Record<string, any> = {}
+    const headerParams: Record<string, any> = {}
+    const cookieParams: Record<string, any> = {}
+
+    for (const [key, value] of Object.entries(paramsObj)) {
+        if (key in pathParams) continue
+        const parameter = declared.find((p) => p.name === key)
+        if (parameter?.in === 'header') {
+            headerParams[key] = value
+        } else if (parameter?.in === 'cookie') {
+            cookieParams[key] = value
+        } else if (parameter || unknownParams === 'query') {
+            queryParams[key] = value
+        } else if (unknownParams === 'error') {
+            throw new Error(`Unknown parameter: ${key}`)
+        }
+    }
+
+    return { url, pathParams, queryParams, headerParams, cookieParams }
+}
+
+const toHeaders = (
+    headerParams: Record<string, any>,
+    cookieParams: Record<string, any>,
+    parameters: OpenAPIParameter[],
+): Record<string, string> => {
+    const headers: Record<string, string> = {}
+    for (const [name, value] of Object.entries(headerParams)) {
+        if (value === undefined) continue
+        headers[name] = serializeHeaderParam(
+            value,
+            parameters.find((p) => p.name === name && p.in === 'header'),
+        )
+    }
+    const cookie = serializeCookieParams(cookieParams, parameters)
+    if (cookie) headers.Cookie = cookie
+    return headers
+}
+
+/**
+ * Separates an explicit Content-Type from the other headers of a call, so that the encoded body can replace it
+ * with one carrying the multipart boundary.
+ */
+const splitContentType = (headers: AxiosRequestConfig['headers'] = {}) => {
+    const { contentType, ...rest } = Object.entries(headers).reduce<Record<string, any>>(
+        (result, [name, value]) =>
+            name.toLowerCase() === 'content-type' ? { ...result, contentType: value } : { ...result, [name]: value },
+        {},
+    )
+    return { contentType: typeof contentType === 'string' ? contentType : undefined, headers: rest }
+}
 
-    return { url, pathParams, queryParams }
+/**
+ * Warns once per client about each deprecated operation and each deprecated parameter that is used.
+ */
+const warnDeprecated = (metadata: OperationMetadata, params: any, options: BuildClientOptions, state: ClientState) => {
+    const logger = options.logger ?? console
+    const { operationId, method, path } = metadata
+    if (metadata.deprecated && !state.warned.has(operationId)) {
+        state.warned.add(operationId)
+        logger.warn(`Operation ${operationId} (${method.toUpperCase()} ${path}) is deprecated`)
+    }
+    if (typeof params !== 'object' || params === null) return
+    for (const name of metadata.deprecatedParameters) {
+        const key = `${operationId}.${name}`
+        if (params[name] === undefined || state.warned.has(key)) continue
+        state.warned.add(key)
+        logger.warn(`Parameter ${name} of operation ${operationId} is deprecated`)
+    }
 }
 
-const createMethod =
-    (path: string, method: string, operationId: string, api: ApiInstance) =>
-    async (parameters: any = {}, data?: any, config?: AxiosRequestConfig): Promise<ApiResponse<any>> => {
-        const { queryParams, url } = splitParams(path, parameters)
-        const axiosConfig: AxiosRequestConfig & { operationId: string } = {
+const createMethod = (
+    specOperation: SpecOperation,
+    metadata: OperationMetadata,
+    api: ApiInstance,
+    options: BuildClientOptions,
+    state: ClientState,
+) => {
+    const { path, method, parameters, servers, requestBody, responses } = specOperation
+    const { operationId } = metadata
+    const secured = !!specOperation.security?.length
+
+    // The end of the middleware pipeline
+    const send = async ({
+        params,
+        body: data,
+        config: callConfig,
+        url: pageUrl,
+    }: MiddlewareContext): Promise<ApiResponse<any>> => {
+        const { stream, reconnect, ...config } = callConfig
+        if (pageUrl !== undefined) {
+            return api.request({
+                ...config,
+                method,
+                url: pageUrl,
+                operationId,
+                pathTemplate: path,
+                secured,
+            } as AxiosRequestConfig)
+        }
+
+        const { queryParams, headerParams, cookieParams, url } = splitParams(path, params, {
+            parameters,
+            unknownParams: options.unknownParams,
+        })
+        const { contentType, headers } = splitContentType(config.headers)
+        const body = await encodeRequestBody(state.spec, requestBody, data, contentType)
+        const onUploadProgress = options.onUploadProgress
+        const axiosConfig: AxiosRequestConfig & { operationId: string; pathTemplate: string; secured: boolean } = {
+            ...(servers ? { baseURL: expandServerUrl(servers[0], state.serverVariables) } : {}),
             method,
             url,
             params: queryParams,
-            data,
+            paramsSerializer: { serialize: (query) => serializeQueryParams(query, parameters) },
+            data: body.data,
             operationId,
+            pathTemplate: path,
+            secured,
+            ...(onUploadProgress ? { onUploadProgress: (event) => onUploadProgress(event, operationId) } : {}),
             ...config,
+            headers: {
+                ...toHeaders(headerParams, cookieParams, parameters),
+                ...headers,
+                ...(body.contentType || contentType ? { 'Content-Type': body.contentType ?? contentType } : {}),
+            },
         }
 
+        const format =
+            typeof stream === 'string'
+                ? stream
+                : stream === false
+                ? undefined
+                : getResponseStreamFormat(responses) ?? (stream ? 'sse' : undefined)
+        if (format) {
+            return requestEventStream((c) => api.request(c), axiosConfig, {
+                format,
+                reconnect,
+                validator: selectResponseValidator(state.validators[operationId], 200, true),
+                validationBehaviour: state.validationBehaviour,
+                logger: options.logger,
+            })
+        }
         return api.request(axiosConfig)
     }
 
+    const invoke = (context: MiddlewareContext) => {
+        const middlewares = state.middlewares
+            .filter(({ scope }) => isInScope(metadata, scope))
+            .map(({ middleware }) => middleware)
+        return runMiddleware([...middlewares, ...state.builtins], context, send)
+    }
+    const createContext = (params: any, body: any, config: OperationConfig): MiddlewareContext => ({
+        operationId,
+        path,
+        method,
+        params,
+        body,
+        config,
+        operation: specOperation,
+        metadata,
+    })
+
+    return {
+        method: async (params: any = {}, data?: any, callConfig: OperationConfig = {}): Promise<ApiResponse<any>> => {
+            warnDeprecated(metadata, params, options, state)
+            return invoke(createContext(params, data, callConfig))
+        },
+        /** Requests a URL, such as a link to the next page, on behalf of the operation */
+        requestUrl: (url: string, config: OperationConfig = {}) =>
+            invoke({ ...createContext(undefined, undefined, config), url }),
+    }
+}
+
+/**
+ * Throws non-ok results as `ApiError` in the `throw` and `data` response modes.
+ */
+const applyResponseMode = (
+    call: (params?: any, data?: any, callConfig?: OperationConfig) => Promise<ApiResponse<any>>,
+    operationId: string,
+    mode: ResponseMode = 'envelope',
+) => {
+    if (mode === 'envelope') return call
+    return async (params?: any, data?: any, callConfig?: OperationConfig) => {
+        const res = await call(params, data, callConfig)
+        if (!res.ok) throw new ApiError(res, operationId)
+        return mode === 'data' ? res.data : res
+    }
+}
+
 const toSafeName = (name: string): string => {
     return name.replace(/[^a-zA-Z0-9_]/g, '_')
 }
@@ -113,96 +460,252 @@ function camelCase(input: string = ''): string {
     )
 }
 
-export const buildClientFromSpec = <OperationMethods, PathsDictionary>(
+/**
+ * Name of the client method of an operation: its sanitized operationId, or the camel-cased method and path.
+ */
+export const getOperationName = ({ path, method, operation }: SpecOperation): string =>
+    operation.operationId
+        ? toSafeName(operation.operationId)
+        : toSafeName(camelCase(`${method} ${path.replace(/[\/{}]/g, ' ')}`))
+
+// Members that buildClientFromSpec adds to the api instance
+const SPEC_CLIENT_MEMBERS = ['paths', 'setServer', 'paginate', 'operations', 'use']
+
+/**
+ * Whether a method name or namespace would replace a member of the api instance.
+ */
+export const isReservedName = (api: object, name: string): boolean => SPEC_CLIENT_MEMBERS.includes(name) || name in api
+
+/**
+ * Names the client methods of the operations of a spec. Throws `OperationNameError` when two operations get the
+ * same name, or when a name or namespace is reserved.
+ */
+export const nameOperations = (
     spec: OpenAPISpec,
+    options: Pick<BuildClientOptions, 'operationName' | 'namespaceByTag'>,
+    isReserved: (name: string) => boolean,
+): NamedOperation[] => {
+    const owners = new Map<string, string>()
+    const describe = ({ method, path }: SpecOperation) => `${method.toUpperCase()} ${path}`
+    const claim = (name: string, owner: string) => {
+        if (isReserved(name)) {
+            throw new OperationNameError(name, `${owner} is named ${name}, which is a member of the api instance`)
+        }
+        const previous = owners.get(name)
+        if (previous !== undefined && previous !== owner) {
+            throw new OperationNameError(name, `${owner} is named ${name}, which is already used by ${previous}`)
+        }
+        owners.set(name, owner)
+    }
+
+    const named = getOperations(spec).map((specOperation) => {
+        const { path, method, operation } = specOperation
+        const name = options.operationName
+            ? toSafeName(options.operationName(path, method, operation))
+            : getOperationName(specOperation)
+        const tag = options.namespaceByTag ? operation.tags?.[0] : undefined
+        const namespace = tag !== undefined ? toSafeName(camelCase(tag)) || undefined : undefined
+        return { name, namespace, tag, specOperation }
+    })
+
+    for (const { name, specOperation } of named) claim(name, describe(specOperation))
+    // Namespaces live next to the top-level methods
+    for (const { namespace, tag } of named) {
+        if (namespace !== undefined) claim(namespace, `The ${tag} tag`)
+    }
+    return named.map(({ tag, ...rest }) => rest)
+}
+
+export const buildClientFromSpec = <OperationMethods, PathsDictionary>(
+    spec: OpenAPISpec | SwaggerSpec,
     api: ApiInstance,
-    validators: Record<string, z.ZodType> = {},
-    validationBehaviour: 'error' | 'warning' = 'error',
-): ApiInstance & OperationMethods & { paths: PathsDictionary } => {
+    validators: Record<string, ResponseValidator> = {},
+    validationBehaviour: ValidationBehaviour = 'error',
+    options: BuildClientOptions = {},
+): ApiInstance & OperationMethods & SpecClient<PathsDictionary> => {
     const methods: Record<string, Function> = {}
+    const namespaces: Record<string, Record<string, unknown>> = {}
     const paths: Record<string, Record<string, Function>> = {}
+    const paginators: Record<string, PaginatedMethod> = {}
+
+    const security = new Map<string, OpenAPISecurityRequirement[]>()
+    const operations = new Map<string, SpecOperation>()
+    const registry = new Map<string, OperationMetadata>()
+    const document = normalizeSpec(spec)
+    const state: ClientState = {
+        spec: document,
+        serverVariables: { ...options.serverVariables },
+        validators,
+        validationBehaviour,
+        warned: new Set(),
+        middlewares: [],
+        builtins: [],
+    }
+    if (options.requestValidators) {
+        state.builtins.push(
+            createRequestValidationMiddleware(options.requestValidators, {
+                behaviour: options.requestValidationBehaviour,
+                useParsedRequest: options.useParsedRequest,
+                logger: options.logger,
+            }),
+        )
+    }
+    if (Object.keys(validators).length) {
+        state.builtins.push(createResponseValidationMiddleware(validators, validationBehaviour, options.logger))
+    }
+    const telemetry = getTelemetry(api)
+    if (telemetry && state.builtins.length) state.builtins.unshift(createValidationTelemetryMiddleware(telemetry))
+
+    const setServer = (server: ServerSelector = 0, variables: Record<string, string> = {}) => {
+        const serverVariables = { ...state.serverVariables, ...variables }
+        api.defaults.baseURL = expandServerUrl(selectServer(document.servers, server), serverVariables)
+        state.serverVariables = serverVariables
+    }
+    if (options.server !== undefined || (document.servers?.length && !api.defaults?.baseURL)) {
+        setServer(options.server)
+    }
+
+    const named = nameOperations(document, options, (name) => isReservedName(api, name))
+    for (const { name: operationId, namespace, specOperation } of named) {
+        const { path, method, operation } = specOperation
+        const metadata: OperationMetadata = {
+            operationId,
+            namespace,
+            path,
+            method,
+            tags: operation.tags ?? [],
+            summary: operation.summary,
+            description: operation.description,
+            deprecated: operation.deprecated === true,
+            deprecatedParameters: specOperation.parameters.filter((p) => p.deprecated).map((p) => p.name),
+        }
+        const { method: call, requestUrl } = createMethod(specOperation, metadata, api, options, state)
+        const fn = Object.assign(applyResponseMode(call, operationId, options.responseMode), { metadata })
+        registry.set(operationId, metadata)
+        if (namespace !== undefined) namespaces[namespace] = { ...namespaces[namespace], [operationId]: fn }
+        else methods[operationId] = fn
+        operations.set(operationId, specOperation)
+        paths[path] = { ...paths[path], [method]: fn }
+        if (specOperation.security) security.set(operationId, specOperation.security)
 
-    for (const [path, methodsObj] of Object.entries(spec.paths)) {
-        paths[path] = {}
-        for (const [method, operation] of Object.entries(methodsObj)) {
-            const operationId = operation.operationId
-                ? toSafeName(operation.operationId)
-                : toSafeName(camelCase(`${method} ${path.replace(/[\/{}]/g, ' ')}`))
-            const fn = createMethod(path, method, operationId, api)
-            methods[operationId] = fn
-            paths[path][method] = fn
+        const strategy = options.pagination?.[operationId] ?? operation['x-pagination']
+        if (strategy) {
+            paginators[operationId] = (params, { config, ...paginateOptions } = {}) =>
+                paginate(
+                    strategy,
+                    {
+                        params: (pageParams) => call(pageParams, undefined, config),
+                        url: (url, previous) => requestUrl(resolvePageUrl(url, previous), config),
+                    },
+                    params,
+                    paginateOptions,
+                )
         }
     }
 
-    if (Object.keys(validators).length) {
-        api.interceptors.response.use((res) => {
-            if (res.ok) {
-                const operationId = (res.config as any).operationId
-                const validator = validators[operationId]
-                if (validator) {
-                    try {
-                        validator.parse(res.data)
-                    } catch (e) {
-                        if (validationBehaviour === 'error') {
-                            return {
-                                ok: false,
-                                problem: PROBLEM_CODE.VALIDATION_ERROR,
-                                originalError: e as any,
-                                data: res.data,
-                                status: res.status,
-                                headers: res.headers,
-                                config: res.config,
-                            } as ApiErrorResponse<any>
-                        } else if (validationBehaviour === 'warning') {
-                            console.warn('Response validation failed:', e)
-                        }
-                    }
-                }
-            }
-            return res
-        })
+    // Mocked clients never request OAuth2 tokens
+    if (options.mock) {
+        useTransport(api, 'mock', createMockLayer(document, operations, options.mock === true ? {} : options.mock))
+    } else if (options.credentials) {
+        useTransport(api, 'auth', createSecurityLayer(document, security, options.credentials))
+    }
+
+    const operationRegistry: OperationRegistry = {
+        get: (operationId) => registry.get(operationId),
+        byTag: (tag) => [...registry.values()].filter((metadata) => metadata.tags.includes(tag)),
+        list: () => [...registry.values()],
     }
 
-    Object.assign(api, methods, { paths })
+    const use = (middleware: Middleware, scope?: MiddlewareScope) => {
+        const entry: ScopedMiddleware = { middleware, scope }
+        state.middlewares.push(entry)
+        return () => {
+            state.middlewares = state.middlewares.filter((added) => added !== entry)
+        }
+    }
+
+    Object.assign(api, methods, namespaces, {
+        paths,
+        setServer,
+        paginate: paginators,
+        operations: operationRegistry,
+        use,
+    })
 
-    return api as OperationMethods & { paths: PathsDictionary } & ApiInstance
+    return api as OperationMethods & SpecClient<PathsDictionary> & ApiInstance
 }
 
-type TypedApiConfig = ApiConfig & {
-    validators?: Record<string, z.ZodType>
-    validationBehaviour?: 'error' | 'warning'
+export type TypedApiConfig = Omit<ApiConfig, 'url'> &
+    Omit<BuildClientOptions, 'responseMode'> & {
+        /** Base URL of the api. Defaults to the selected server of the spec. */
+        url?: string
+        validators?: Record<string, ResponseValidator>
+        validationBehaviour?: ValidationBehaviour
+    }
+
+/**
+ * The client returned by `createTypedApi`.
+ */
+export type TypedApi<
+    OperationMethods,
+    PathsDictionary,
+    ErrorBodies = {},
+    Mode extends ResponseMode = 'envelope',
+> = AdaptedOperationMethods<OperationMethods, ErrorBodies, Mode> & SpecClient<PathsDictionary> & ApiInstance
+
+/**
+ * Redacts the query parameters of the spec's `apiKey` schemes in fixtures, unless `redactQueryParams` is given.
+ */
+const getApiConfig = (spec: OpenAPISpec | SwaggerSpec, config: TypedApiConfig): ApiConfig => {
+    if (!config.fixtures || config.fixtures.redactQueryParams) return config as ApiConfig
+    const redactQueryParams = getApiKeyQueryParams(normalizeSpec(spec))
+    return { ...config, fixtures: { ...config.fixtures, redactQueryParams } } as ApiConfig
 }
 
-export function createTypedApi<OperationMethods, PathsDictionary>(
+export function createTypedApi<
+    OperationMethods,
+    PathsDictionary,
+    ErrorBodies = {},
+    Mode extends ResponseMode = 'envelope',
+>(
     specOrPath: string,
-    config: TypedApiConfig,
-): Promise<AdaptedOperationMethods<OperationMethods> & { paths: PathsDictionary } & ApiInstance>
-export function createTypedApi<OperationMethods, PathsDictionary>(
-    specOrPath: OpenAPISpec,
-    config: TypedApiConfig,
-): AdaptedOperationMethods<OperationMethods> & { paths: PathsDictionary } & ApiInstance
-export function createTypedApi<OperationMethods, PathsDictionary>(
-    specOrPath: string | OpenAPISpec,
-    config: TypedApiConfig,
-) {
+    config: TypedApiConfig & { responseMode?: Mode },
+): Promise<TypedApi<OperationMethods, PathsDictionary, ErrorBodies, Mode>>
+export function createTypedApi<
+    OperationMethods,
+    PathsDictionary,
+    ErrorBodies = {},
+    Mode extends ResponseMode = 'envelope',
+>(
+    specOrPath: OpenAPISpec | SwaggerSpec,
+    config: TypedApiConfig & { responseMode?: Mode },
+): TypedApi<OperationMethods, PathsDictionary, ErrorBodies, Mode>
+export function createTypedApi<
+    OperationMethods,
+    PathsDictionary,
+    ErrorBodies = {},
+    Mode extends ResponseMode = 'envelope',
+>(specOrPath: string | OpenAPISpec | SwaggerSpec, config: TypedApiConfig & { responseMode?: Mode }) {
     if (typeof specOrPath === 'string') {
         return (async () => {
             const spec = await loadSpec(specOrPath)
-            const apiInstance = createApi(config)
-            return buildClientFromSpec<AdaptedOperationMethods<OperationMethods>, PathsDictionary>(
+            const apiInstance = createApi(getApiConfig(spec, config))
+            return buildClientFromSpec<AdaptedOperationMethods<OperationMethods, ErrorBodies, Mode>, PathsDictionary>(
                 spec,
                 apiInstance,
                 config.validators,
                 config.validationBehaviour,
+                config,
             )
         })()
     } else {
-        const apiInstance = createApi(config)
-        return buildClientFromSpec<AdaptedOperationMethods<OperationMethods>, PathsDictionary>(
+        const apiInstance = createApi(getApiConfig(specOrPath, config))
+        return buildClientFromSpec<AdaptedOperationMethods<OperationMethods, ErrorBodies, Mode>, PathsDictionary>(
             specOrPath,
             apiInstance,
             config.validators,
             config.validationBehaviour,
+            config,
         )
     }
 }
@@ -0,0 +1,248 @@
+import axios, { AxiosRequestConfig } from 'axios'
+import type { ApiErrorResponse, ApiOkResponse, ApiResponse } from './wrapper'
+
+interface PaginationBase {
+    /**
+     * Dot separated path of the items in the response body. Defaults to the body when it is an array,
+     * otherwise to the first array in `items`, `data` or `results`.
+     */
+    itemsPath?: string
+    /** Stops after this many pages. */
+    maxPages?: number
+}
+
+/**
+ * Sends the cursor found at `cursorPath` in the body as the `cursorParam` parameter. Stops when the server returns
+ * a cursor it has returned before.
+ */
+export interface CursorPagination extends PaginationBase {
+    type: 'cursor'
+    cursorParam: string
+    cursorPath: string
+}
+
+/** Requests the URL found at `nextPath` in the body. */
+export interface NextLinkPagination extends PaginationBase {
+    type: 'next'
+    nextPath: string
+}
+
+/** Advances the `offsetParam` parameter by the number of received items. */
+export interface OffsetPagination extends PaginationBase {
+    type: 'offset'
+    /** Defaults to `offset`. */
+    offsetParam?: string
+    /** Defaults to `limit`. */
+    limitParam?: string
+    /** Page size sent when the call does not set `limitParam`. */
+    limit?: number
+    /** Dot separated path of the total number of items in the body. */
+    totalPath?: string
+}
+
+/** Increments the `pageParam` parameter. */
+export interface PagePagination extends PaginationBase {
+    type: 'page'
+    /** Defaults to `page`. */
+    pageParam?: string
+    /** Page size parameter, used to detect the last page. */
+    sizeParam?: string
+    /** Defaults to 1. */
+    firstPage?: number
+    /** Dot separated path of the total number of pages in the body. */
+    totalPagesPath?: string
+}
+
+/** Follows the `rel="next"` link of the RFC 5988 `Link` header. */
+export interface LinkHeaderPagination extends PaginationBase {
+    type: 'link'
+}
+
+export type PaginationStrategy =
+    | CursorPagination
+    | NextLinkPagination
+    | OffsetPagination
+    | PagePagination
+    | LinkHeaderPagination
+
+export interface PaginateOptions {
+    /** Overrides the `maxPages` of the strategy. */
+    maxPages?: number
+    /** Request config used for every page. */
+    config?: AxiosRequestConfig
+}
+
+/**
+ * Iterates the items of all pages of an operation. Iteration stops at the first failing page; the failing
+ * `ApiErrorResponse` is returned by the iterator and kept in `error`.
+ */
+export interface Paginator<Item = any> extends AsyncIterable<Item> {
+    [Symbol.asyncIterator](): AsyncIterator<Item, ApiErrorResponse<any> | undefined>
+    pages(): AsyncGenerator<ApiOkResponse<any>, ApiErrorResponse<any> | undefined>
+    /** The response of the page that failed, if any. */
+    readonly error?: ApiErrorResponse<any>
+}
+
+export type PaginatedMethod<Item = any> = (params?: any, options?: PaginateOptions) => Paginator<Item>
+
+/**
+ * Requests a page either with parameters for the operation, or with a URL given by the previous page.
+ */
+export interface PageFetcher {
+    params(params: Record<string, any>): Promise<ApiResponse<any>>
+    url(url: string, previous: ApiOkResponse<any>): Promise<ApiResponse<any>>
+}
+
+const DEFAULT_ITEMS_FIELDS = ['items', 'data', 'results']
+
+export const getPath = (value: any, path: string): any =>
+    path.split('.').reduce((node, key) => (node === null || node === undefined ? undefined : node[key]), value)
+
+export const getPageItems = (body: any, itemsPath?: string): any[] => {
+    const items = itemsPath
+        ? getPath(body, itemsPath)
+        : Array.isArray(body)
+        ? body
+        : DEFAULT_ITEMS_FIELDS.map((field) => body?.[field]).find(Array.isArray)
+    return Array.isArray(items) ? items : []
+}
+
+/**
+ * Parses an RFC 5988 `Link` header into URLs keyed by relation type.
+ */
+export const parseLinkHeader = (header: string | undefined): Record<string, string> => {
+    const links: Record<string, string> = {}
+    for (const [, url, attributes] of (header ?? '').matchAll(/<([^>]*)>([^,<]*)/g)) {
+        const rel = /;\s*rel="?([^";]+)"?/i.exec(attributes)?.[1]
+        for (const type of rel?.split(/\s+/) ?? []) links[type.toLowerCase()] = url
+    }
+    return links
+}
+
+/**
+ * Resolves a link of a page against the URL the page was requested from.
+ */
+export const resolvePageUrl = (url: string, previous: ApiOkResponse<any>): string => {
+    try {
+        return new URL(url, axios.getUri({ ...previous.config, params: undefined })).href
+    } catch {
+        return url
+    }
+}
+
+type NextPage = { params: Record<string, any> } | { url: string } | undefined
+
+const getNextPage = (
+    strategy: PaginationStrategy,
+    params: Record<string, any>,
+    page: ApiOkResponse<any>,
+    items: any[],
+    cursors: Set<unknown>,
+): NextPage => {
+    const body = page.data
+    switch (strategy.type) {
+        case 'cursor': {
+            const cursor = getPath(body, strategy.cursorPath)
+            if (cursor === undefined || cursor === null || cursor === '' || !items.length) return undefined
+            // A repeated cursor would request the same pages forever
+            if (cursors.has(cursor)) return undefined
+            cursors.add(cursor)
+            return { params: { ...params, [strategy.cursorParam]: cursor } }
+        }
+        case 'next': {
+            const next = getPath(body, strategy.nextPath)
+            return typeof next === 'string' && next ? { url: next } : undefined
+        }
+        case 'link': {
+            const next = parseLinkHeader(page.headers?.link).next
+            return next ? { url: next } : undefined
+        }
+        case 'offset': {
+            const { offsetParam = 'offset', limitParam = 'limit', totalPath } = strategy
+            const limit = params[limitParam]
+            const offset = Number(params[offsetParam] ?? 0) + items.length
+            const total = totalPath ? Number(getPath(body, totalPath)) : undefined
+            if (!items.length || (limit !== undefined && items.length < Number(limit))) return undefined
+            if (total !== undefined && !Number.isNaN(total) && offset >= total) return undefined
+            return { params: { ...params, [offsetParam]: offset } }
+        }
+        case 'page': {
+            const { pageParam = 'page', sizeParam, firstPage = 1, totalPagesPath } = strategy
+            const current = Number(params[pageParam] ?? firstPage)
+            const totalPages = totalPagesPath ? Number(getPath(body, totalPagesPath)) : undefined
+            const size = sizeParam ? params[sizeParam] : undefined
+            if (!items.length || (size !== undefined && items.length < Number(size))) return undefined
+            if (totalPages !== undefined && !Number.isNaN(totalPages) && current >= totalPages) return undefined
+            return { params: { ...params, [pageParam]: current + 1 } }
+        }
+    }
+}
+
+const getInitialParams = (strategy: PaginationStrategy, params: Record<string, any>) => {
+    if (strategy.type === 'offset' && strategy.limit !== undefined) {
+        return { [strategy.limitParam ?? 'limit']: strategy.limit, ...params }
+    }
+    if (strategy.type === 'page') return { [strategy.pageParam ?? 'page']: strategy.firstPage ?? 1, ...params }
+    return params
+}
+
+/**
+ * Creates a paginator that requests pages lazily while it is iterated.
+ */
+export const paginate = <Item = any>(
+    strategy: PaginationStrategy,
+    fetcher: PageFetcher,
+    params: Record<string, any> = {},
+    options: PaginateOptions = {},
+): Paginator<Item> => {
+    const maxPages = options.maxPages ?? strategy.maxPages ?? Infinity
+    let error: ApiErrorResponse<any> | undefined
+
+    async function* pages(): AsyncGenerator<ApiOkResponse<any>, ApiErrorResponse<any> | undefined> {
+        error = undefined
+        let pageParams = getInitialParams(strategy, params)
+        const cursors = new Set<unknown>()
+        let response = await fetcher.params(pageParams)
+        for (let count = 1; ; count++) {
+            if (!response.ok) {
+                error = response
+                return response
+            }
+            yield response
+
+            const next =
+                count < maxPages
+                    ? getNextPage(
+                          strategy,
+                          pageParams,
+                          response,
+                          getPageItems(response.data, strategy.itemsPath),
+                          cursors,
+                      )
+                    : undefined
+            if (!next) return undefined
+            if ('url' in next) {
+                response = await fetcher.url(next.url, response)
+            } else {
+                pageParams = next.params
+                response = await fetcher.params(pageParams)
+            }
+        }
+    }
+
+    async function* items(): AsyncGenerator<Item, ApiErrorResponse<any> | undefined> {
+        const iterator = pages()
+        for (let result = await iterator.next(); !result.done; result = await iterator.next()) {
+            yield* getPageItems(result.value.data, strategy.itemsPath)
+        }
+        return error
+    }
+
+    return {
+        [Symbol.asyncIterator]: items,
+        pages,
+        get error() {
+            return error
+        },
+    }
+}
@@ -0,0 +1,134 @@
+import { AxiosResponse, CanceledError } from 'axios'
+import type { ApiRequestConfig, TransportLayer } from './wrapper'
+
+export interface QueueConfig {
+    /** Maximum number of requests in flight. */
+    concurrency?: number
+    /** Maximum number of requests in flight per host. */
+    perHost?: number
+    /** Maximum number of requests in flight keyed by operationId. */
+    operations?: Record<string, number>
+    /** Priorities keyed by operationId, used when a request does not set `priority`. */
+    priorities?: Record<string, number>
+}
+
+/**
+ * Per-request options of the queue.
+ */
+export interface QueueOptions {
+    /** Requests with a higher priority leave the queue first. Defaults to 0. */
+    priority?: number
+}
+
+interface QueuedRequest {
+    host: string
+    operationId?: string
+    priority: number
+    start: () => void
+}
+
+const getHost = (config: ApiRequestConfig) => {
+    try {
+        return new URL(config.url ?? '', config.baseURL).host
+    } catch {
+        return ''
+    }
+}
+
+const increment = (counts: Map<string, number>, key: string, delta: number) => {
+    const count = (counts.get(key) ?? 0) + delta
+    if (count > 0) counts.set(key, count)
+    else counts.delete(key)
+}
+
+/**
+ * Limits the number of concurrent requests. Waiting requests are started by priority, then in order of arrival.
+ * The time spent waiting is stored as `queueTime` on the request config.
+ */
+export const createQueueLayer = (config: QueueConfig): TransportLayer => {
+    const queue: QueuedRequest[] = []
+    const hosts = new Map<string, number>()
+    const operations = new Map<string, number>()
+    let active = 0
+
+    const canStart = ({ host, operationId }: Pick<QueuedRequest, 'host' | 'operationId'>) => {
+        if (config.concurrency !== undefined && active >= config.concurrency) return false
+        if (config.perHost !== undefined && (hosts.get(host) ?? 0) >= config.perHost) return false
+        const operationLimit = operationId !== undefined ? config.operations?.[operationId] : undefined
+        return operationLimit === undefined || (operations.get(operationId!) ?? 0) < operationLimit
+    }
+
+    const acquire = ({ host, operationId }: Pick<QueuedRequest, 'host' | 'operationId'>) => {
+        active++
+        increment(hosts, host, 1)
+        if (operationId !== undefined) increment(operations, operationId, 1)
+    }
+
+    const release = ({ host, operationId }: Pick<QueuedRequest, 'host' | 'operationId'>) => {
+        active--
+        increment(hosts, host, -1)
+        if (operationId !== undefined) increment(operations, operationId, -1)
+        for (let i = 0; i < queue.length; ) {
+            const request = queue[i]
+            if (!canStart(request)) {
+                i++
+                continue
+            }
+            queue.splice(i, 1)
+            request.start()
+        }
+    }
+
+    const enqueue = (request: QueuedRequest) => {
+        const index = queue.findIndex((queued) => queued.priority < request.priority)
+        queue.splice(index === -1 ? queue.length : index, 0, request)
+    }
+
+    const wait = (requestConfig: ApiRequestConfig, slot: Omit<QueuedRequest, 'start'>) =>
+        new Promise<void>((resolve, reject) => {
+            const signal = requestConfig.signal
+            const onAbort = () => {
+                const index = queue.indexOf(request)
+                if (index !== -1) queue.splice(index, 1)
+                reject(new CanceledError(undefined, undefined, requestConfig))
+            }
+            const request: QueuedRequest = {
+                ...slot,
+                start: () => {
+                    signal?.removeEventListener?.('abort', onAbort)
+                    acquire(slot)
+                    resolve()
+                },
+            }
+            if (signal?.aborted) return onAbort()
+            signal?.addEventListener?.('abort', onAbort)
+            enqueue(request)
+        })
+
+    return async (requestConfig, next): Promise<AxiosResponse> => {
+        const operationId = requestConfig.operationId
+        const slot = {
+            host: getHost(requestConfig),
+            operationId,
+            priority:
+                requestConfig.priority ??
+                (operationId !== undefined ? config.priorities?.[operationId] : undefined) ??
+                0,
+        }
+
+        let waited = 0
+        if (canStart(slot)) acquire(slot)
+        else {
+            const queuedAt = Date.now()
+            await wait(requestConfig, slot)
+            waited = Date.now() - queuedAt
+        }
+        requestConfig.queueTime = (requestConfig.queueTime ?? 0) + waited
+
+        try {
+            return await next(requestConfig)
+        } finally {
+            release(slot)
+        }
+    }
+}
@@ -0,0 +1,118 @@
+import { AxiosError, AxiosResponse, CanceledError } from 'axios'
+import { ApiRequestConfig, getProblemFromError, Methods, PROBLEM_CODE, TransportLayer } from './wrapper'
+
+export interface RetryOptions {
+    /** Maximum number of attempts, including the first one. Defaults to 3. */
+    attempts?: number
+    /** Problems that are retried. Defaults to timeouts, connection and network errors. */
+    problems?: PROBLEM_CODE[]
+    /** Response status codes that are retried. Defaults to 408, 429, 500, 502, 503 and 504. */
+    statusCodes?: number[]
+    /** Methods that are retried. Defaults to the idempotent methods. */
+    methods?: Methods[]
+    /** Retries the operation regardless of its method. Use for POST and PATCH operations that are safe to repeat. */
+    idempotent?: boolean
+    /** Delay before the first retry in milliseconds. Defaults to 300. */
+    baseDelay?: number
+    /** Upper bound for a single delay in milliseconds. Defaults to 30000. */
+    maxDelay?: number
+    /** Multiplier applied to the delay after each attempt. Defaults to 2. */
+    factor?: number
+    /** Randomizes delays between zero and the computed backoff. Defaults to true. */
+    jitter?: boolean
+    /** Waits for the `Retry-After` header of 429 and 503 responses. Defaults to true. */
+    respectRetryAfter?: boolean
+}
+
+export interface RetryConfig extends RetryOptions {
+    /** Overrides keyed by operationId. `false` disables retries for the operation. */
+    operations?: Record<string, RetryOptions | false>
+}
+
+const defaultOptions = (): Required<Omit<RetryOptions, 'idempotent'>> & { idempotent: boolean } => ({
+    attempts: 3,
+    problems: [PROBLEM_CODE.TIMEOUT_ERROR, PROBLEM_CODE.CONNECTION_ERROR, PROBLEM_CODE.NETWORK_ERROR],
+    statusCodes: [408, 429, 500, 502, 503, 504],
+    methods: ['get', 'head', 'options', 'put', 'delete'],
+    idempotent: false,
+    baseDelay: 300,
+    maxDelay: 30000,
+    factor: 2,
+    jitter: true,
+    respectRetryAfter: true,
+})
+
+/**
+ * Parses a `Retry-After` header given either in seconds or as an HTTP date.
+ */
+export const parseRetryAfter = (value: unknown, now = Date.now()): number | undefined => {
+    if (typeof value !== 'string' && typeof value !== 'number') return undefined
+    const seconds = Number(value)
+    if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000)
+    const date = Date.parse(String(value))
+    return Number.isNaN(date) ? undefined : Math.max(0, date - now)
+}
+
+export const getBackoffDelay = (attempt: number, options: RetryOptions): number => {
+    const { baseDelay, maxDelay, factor, jitter } = { ...defaultOptions(), ...options }
+    const delay = Math.min(maxDelay, baseDelay * Math.pow(factor, attempt - 1))
+    return jitter ? Math.round(Math.random() * delay) : delay
+}
+
+export const sleep = (ms: number, signal?: ApiRequestConfig['signal']): Promise<void> =>
+    new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(new CanceledError())
+        const onAbort = () => {
+            clearTimeout(timer)
+            reject(new CanceledError())
+        }
+        const timer = setTimeout(() => {
+            signal?.removeEventListener?.('abort', onAbort)
+            resolve()
+        }, ms)
+        signal?.addEventListener?.('abort', onAbort)
+    })
+
+const isRetryable = (error: AxiosError, options: ReturnType<typeof defaultOptions>) => {
+    const problem = getProblemFromError(error)
+    if (problem === PROBLEM_CODE.CANCEL_ERROR) return false
+    const status = error.response?.status
+    if (status !== undefined) return options.statusCodes.includes(status)
+    return !!problem && options.problems.includes(problem)
+}
+
+const getDelay = (error: AxiosError, attempt: number, options: ReturnType<typeof defaultOptions>) => {
+    const status = error.response?.status
+    if (options.respectRetryAfter && (status === 429 || status === 503)) {
+        const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after'])
+        if (retryAfter !== undefined) return Math.min(retryAfter, options.maxDelay)
+    }
+    return getBackoffDelay(attempt, options)
+}
+
+/**
+ * Retries failed requests with exponential backoff. The number of attempts is stored on the request config.
+ */
+export const createRetryLayer = (config: RetryConfig): TransportLayer => {
+    const { operations = {}, ...globalOptions } = config
+
+    return async (requestConfig, next): Promise<AxiosResponse> => {
+        const override = requestConfig.operationId ? operations[requestConfig.operationId] : undefined
+        if (override === false) return next(requestConfig)
+
+        const options = { ...defaultOptions(), ...globalOptions, ...override }
+        const method = (requestConfig.method ?? 'get').toLowerCase() as Methods
+        if (!options.idempotent && !options.methods.includes(method)) return next(requestConfig)
+
+        for (let attempt = 1; ; attempt++) {
+            requestConfig.attempts = attempt
+            try {
+                return await next(requestConfig)
+            } catch (e) {
+                const error = e as AxiosError
+                if (!error?.isAxiosError || attempt >= options.attempts || !isRetryable(error, options)) throw e
+                await sleep(getDelay(error, attempt, options), requestConfig.signal)
+            }
+        }
+    }
+}
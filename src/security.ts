@@ -0,0 +1,283 @@
+import axios, { AxiosError, AxiosResponse } from 'axios'
+import {
+    OpenAPIOAuthFlows,
+    OpenAPISecurityRequirement,
+    OpenAPISecurityScheme,
+    OpenAPISpec,
+    resolveRef,
+} from './document'
+import type { ApiRequestConfig, TransportLayer } from './wrapper'
+
+export interface BasicCredentials {
+    username: string
+    password: string
+}
+
+/**
+ * Settings for obtaining OAuth2 access tokens with the client credentials or refresh token grant.
+ */
+export interface OAuth2Credentials {
+    clientId: string
+    clientSecret?: string
+    /** Overrides the token URL declared in the spec. */
+    tokenUrl?: string
+    /** Defaults to the scopes required by the operation. */
+    scopes?: string[]
+    /** Uses the refresh token grant instead of client credentials. */
+    refreshToken?: string
+}
+
+export type CredentialValue = string | BasicCredentials | OAuth2Credentials
+
+export type CredentialProvider =
+    | CredentialValue
+    | (() => CredentialValue | undefined | Promise<CredentialValue | undefined>)
+
+/**
+ * Credentials keyed by security scheme name. Bearer, API key and OpenID Connect schemes take a string,
+ * basic auth takes `BasicCredentials` and OAuth2 takes either an access token or `OAuth2Credentials`.
+ */
+export type Credentials = Record<string, CredentialProvider | undefined>
+
+interface OAuth2Token {
+    accessToken: string
+    refreshToken?: string
+    expiresAt?: number
+}
+
+const EXPIRY_SKEW = 30000
+
+const toBase64 = (value: string) => btoa(String.fromCharCode(...new TextEncoder().encode(value)))
+
+/**
+ * Identifies the scopes a token is requested with, in any order.
+ */
+const getScopeKey = (credentials: OAuth2Credentials, scopes: string[]) =>
+    [...new Set(credentials.scopes ?? scopes)].sort().join(' ')
+
+const getTokenUrl = (flows: OpenAPIOAuthFlows, refresh: boolean) =>
+    (refresh ? flows.authorizationCode?.refreshUrl ?? flows.password?.refreshUrl : undefined) ??
+    flows.clientCredentials?.tokenUrl ??
+    flows.authorizationCode?.tokenUrl ??
+    flows.password?.tokenUrl
+
+/**
+ * Fetches and caches OAuth2 tokens, one per set of scopes. Concurrent requests for a new token of the same scopes
+ * share a single token request.
+ */
+export class OAuth2TokenManager {
+    private readonly tokens = new Map<string, OAuth2Token>()
+    private readonly pending = new Map<string, Promise<string>>()
+
+    constructor(private readonly flows: OpenAPIOAuthFlows) {}
+
+    getToken(credentials: OAuth2Credentials, scopes: string[]): Promise<string> {
+        const token = this.tokens.get(getScopeKey(credentials, scopes))
+        if (token && (token.expiresAt === undefined || token.expiresAt > Date.now())) {
+            return Promise.resolve(token.accessToken)
+        }
+        return this.fetchToken(credentials, scopes)
+    }
+
+    /**
+     * Replaces a token the server rejected. Requests that were sent with the same stale token share one refresh.
+     */
+    refresh(credentials: OAuth2Credentials, scopes: string[], staleToken: string): Promise<string> {
+        const key = getScopeKey(credentials, scopes)
+        const token = this.tokens.get(key)
+        if (token && token.accessToken !== staleToken) return Promise.resolve(token.accessToken)
+        if (token?.accessToken === staleToken) this.tokens.set(key, { ...token, expiresAt: 0 })
+        return this.fetchToken(credentials, scopes)
+    }
+
+    private fetchToken(credentials: OAuth2Credentials, scopes: string[]): Promise<string> {
+        const key = getScopeKey(credentials, scopes)
+        let pending = this.pending.get(key)
+        if (!pending) {
+            pending = this.requestToken(credentials, scopes, key).finally(() => this.pending.delete(key))
+            this.pending.set(key, pending)
+        }
+        return pending
+    }
+
+    private async requestToken(credentials: OAuth2Credentials, scopes: string[], key: string): Promise<string> {
+        const refreshToken = this.tokens.get(key)?.refreshToken ?? credentials.refreshToken
+        const tokenUrl = credentials.tokenUrl ?? getTokenUrl(this.flows, !!refreshToken)
+        if (!tokenUrl) throw new Error('No token URL configured for OAuth2 security scheme')
+
+        const body = new URLSearchParams({ client_id: credentials.clientId })
+        if (credentials.clientSecret) body.set('client_secret', credentials.clientSecret)
+        if (refreshToken) {
+            body.set('grant_type', 'refresh_token')
+            body.set('refresh_token', refreshToken)
+        } else {
+            body.set('grant_type', 'client_credentials')
+        }
+        const scope = credentials.scopes ?? scopes
+        if (scope.length) body.set('scope', scope.join(' '))
+
+        const res = await axios.post(tokenUrl, body, {
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        })
+        const { access_token, refresh_token, expires_in } = res.data
+        this.tokens.set(key, {
+            accessToken: access_token,
+            refreshToken: refresh_token ?? refreshToken,
+            expiresAt: expires_in ? Date.now() + Math.max(0, expires_in * 1000 - EXPIRY_SKEW) : undefined,
+        })
+        return access_token
+    }
+}
+
+interface AppliedOAuth2 {
+    manager: OAuth2TokenManager
+    credentials: OAuth2Credentials
+    scopes: string[]
+    token: string
+}
+
+/** Code of the errors of requests whose credentials could not be resolved or whose token could not be fetched. */
+export const ERR_CREDENTIALS = 'ERR_CREDENTIALS'
+
+/**
+ * Turns a failure to apply credentials into an error of the request. Errors of the token endpoint keep their code
+ * and response, so that they map to the same problems.
+ */
+const toCredentialsError = (e: unknown, config: ApiRequestConfig): AxiosError => {
+    if (e instanceof AxiosError) return AxiosError.from(e, e.code, config, e.request, e.response)
+    const error = new AxiosError(
+        e instanceof Error ? e.message : 'Credentials could not be applied',
+        ERR_CREDENTIALS,
+        config,
+    )
+    error.cause = e
+    return error
+}
+
+const resolveCredential = async (provider: CredentialProvider | undefined) =>
+    typeof provider === 'function' ? provider() : provider
+
+/**
+ * Sets a cookie, replacing a cookie of the same name. Retries apply credentials again to the same config.
+ */
+const setCookie = (config: ApiRequestConfig, name: string, value: string) => {
+    const cookie = `${name}=${encodeURIComponent(value)}`
+    const existing = String(config.headers.get('Cookie') ?? '')
+        .split(';')
+        .map((pair) => pair.trim())
+        .filter((pair) => pair && pair.split('=')[0] !== name)
+    config.headers.set('Cookie', [...existing, cookie].join('; '))
+}
+
+/**
+ * Names of the query parameters that carry the keys of a spec's `apiKey` schemes.
+ */
+export const getApiKeyQueryParams = (spec: OpenAPISpec): string[] =>
+    Object.values(spec.components?.securitySchemes ?? {})
+        .map((scheme) => resolveRef<OpenAPISecurityScheme>(spec, scheme))
+        .flatMap((scheme) => (scheme.type === 'apiKey' && scheme.in === 'query' ? [scheme.name] : []))
+
+/**
+ * Applies credentials to requests of operations that declare security requirements, and refreshes OAuth2 tokens
+ * once when the server responds with 401.
+ */
+export const createSecurityLayer = (
+    spec: OpenAPISpec,
+    requirements: Map<string, OpenAPISecurityRequirement[]>,
+    credentials: Credentials,
+): TransportLayer => {
+    const managers = new Map<string, OAuth2TokenManager>()
+    const getScheme = (name: string) => {
+        const scheme = spec.components?.securitySchemes?.[name]
+        return scheme ? resolveRef<OpenAPISecurityScheme>(spec, scheme) : undefined
+    }
+    const getManager = (name: string, flows: OpenAPIOAuthFlows) => {
+        if (!managers.has(name)) managers.set(name, new OAuth2TokenManager(flows))
+        return managers.get(name)!
+    }
+
+    const applyScheme = async (
+        config: ApiRequestConfig,
+        scheme: OpenAPISecurityScheme,
+        value: CredentialValue,
+        oauth2?: Omit<AppliedOAuth2, 'token'>,
+    ): Promise<AppliedOAuth2 | undefined> => {
+        if (scheme.type === 'apiKey' && typeof value === 'string') {
+            if (scheme.in === 'header') config.headers.set(scheme.name, value)
+            if (scheme.in === 'query') config.params = { ...config.params, [scheme.name]: value }
+            if (scheme.in === 'cookie') setCookie(config, scheme.name, value)
+        } else if (scheme.type === 'http') {
+            const type = scheme.scheme.toLowerCase()
+            if (type === 'basic' && typeof value === 'object' && 'username' in value) {
+                config.headers.set('Authorization', `Basic ${toBase64(`${value.username}:${value.password}`)}`)
+            } else if (typeof value === 'string') {
+                const prefix = type === 'bearer' ? 'Bearer' : type === 'basic' ? 'Basic' : scheme.scheme
+                config.headers.set('Authorization', `${prefix} ${value}`)
+            }
+        } else if (scheme.type === 'oauth2' || scheme.type === 'openIdConnect') {
+            if (oauth2) {
+                const token = await oauth2.manager.getToken(oauth2.credentials, oauth2.scopes)
+                config.headers.set('Authorization', `Bearer ${token}`)
+                return { ...oauth2, token }
+            }
+            if (typeof value === 'string') config.headers.set('Authorization', `Bearer ${value}`)
+        }
+        return undefined
+    }
+
+    const apply = async (config: ApiRequestConfig, alternatives: OpenAPISecurityRequirement[]) => {
+        for (const requirement of alternatives) {
+            const resolved: {
+                scheme: OpenAPISecurityScheme
+                value: CredentialValue
+                name: string
+                scopes: string[]
+            }[] = []
+            for (const [name, scopes] of Object.entries(requirement)) {
+                const scheme = getScheme(name)
+                const value = await resolveCredential(credentials[name])
+                if (!scheme || value === undefined) break
+                resolved.push({ scheme, value, name, scopes })
+            }
+            if (resolved.length !== Object.keys(requirement).length) continue
+
+            const applied: AppliedOAuth2[] = []
+            for (const { scheme, value, name, scopes } of resolved) {
+                const oauth2 =
+                    scheme.type === 'oauth2' && typeof value === 'object' && 'clientId' in value
+                        ? { manager: getManager(name, scheme.flows), credentials: value, scopes }
+                        : undefined
+                const result = await applyScheme(config, scheme, value, oauth2)
+                if (result) applied.push(result)
+            }
+            return applied
+        }
+        return []
+    }
+
+    return async (config, next): Promise<AxiosResponse> => {
+        const alternatives = config.operationId ? requirements.get(config.operationId) : undefined
+        if (!alternatives?.length) return next(config)
+
+        let applied: AppliedOAuth2[]
+        try {
+            applied = await apply(config, alternatives)
+        } catch (e) {
+            throw toCredentialsError(e, config)
+        }
+        try {
+            return await next(config)
+        } catch (e) {
+            if ((e as AxiosError)?.response?.status !== 401 || !applied.length) throw e
+        }
+        try {
+            for (const { manager, credentials: oauth2, scopes, token } of applied) {
+                const refreshed = await manager.refresh(oauth2, scopes, token)
+                config.headers.set('Authorization', `Bearer ${refreshed}`)
+            }
+        } catch (e) {
+            throw toCredentialsError(e, config)
+        }
+        return next(config)
+    }
+}
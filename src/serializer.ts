@@ -0,0 +1,158 @@
+import type { OpenAPIParameter, ParameterLocation, ParameterStyle } from './document'
+
+const RESERVED = /%(3A|2F|3F|23|5B|5D|40|21|24|26|27|28|29|2A|2B|2C|3B|3D)/gi
+
+const defaultStyle = (location: ParameterLocation): ParameterStyle =>
+    location === 'query' || location === 'cookie' ? 'form' : 'simple'
+
+const resolveStyle = (parameter: OpenAPIParameter | undefined, location: ParameterLocation) => {
+    const style: ParameterStyle = parameter?.style ?? defaultStyle(location)
+    const explode = parameter?.explode ?? style === 'form'
+    return { style, explode }
+}
+
+const encode = (value: string, allowReserved = false): string => {
+    const encoded = encodeURIComponent(value)
+    return allowReserved ? encoded.replace(RESERVED, (match) => decodeURIComponent(match)) : encoded
+}
+
+const toPrimitiveString = (value: any): string => (value instanceof Date ? value.toISOString() : String(value))
+
+const isPlainObject = (value: any): value is Record<string, any> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date)
+
+/**
+ * Parameters described with `content` instead of `schema` are serialized with their media type.
+ * Only JSON media types are encoded, anything else is sent as a string.
+ */
+const serializeContent = (value: any, parameter?: OpenAPIParameter): any => {
+    if (!parameter?.content) return value
+    const mediaType = Object.keys(parameter.content)[0] ?? ''
+    return /json/i.test(mediaType) && typeof value !== 'string' ? JSON.stringify(value) : value
+}
+
+const definedEntries = (value: Record<string, any>) => Object.entries(value).filter(([, v]) => v !== undefined)
+
+/**
+ * Serializes a path parameter using the `simple`, `label` or `matrix` style.
+ * The returned value is already percent-encoded.
+ */
+export const serializePathParam = (name: string, value: any, parameter?: OpenAPIParameter): string => {
+    const { style, explode } = resolveStyle(parameter, 'path')
+    const enc = (v: any) => encode(toPrimitiveString(v), parameter?.allowReserved)
+    value = serializeContent(value, parameter)
+
+    if (style === 'label') {
+        if (Array.isArray(value)) return '.' + value.map(enc).join(explode ? '.' : ',')
+        if (isPlainObject(value)) {
+            const entries = definedEntries(value)
+            return explode
+                ? entries.map(([k, v]) => `.${enc(k)}=${enc(v)}`).join('')
+                : '.' + entries.map(([k, v]) => `${enc(k)},${enc(v)}`).join(',')
+        }
+        return `.${enc(value)}`
+    }
+
+    if (style === 'matrix') {
+        if (Array.isArray(value)) {
+            return explode ? value.map((v) => `;${name}=${enc(v)}`).join('') : `;${name}=${value.map(enc).join(',')}`
+        }
+        if (isPlainObject(value)) {
+            const entries = definedEntries(value)
+            return explode
+                ? entries.map(([k, v]) => `;${enc(k)}=${enc(v)}`).join('')
+                : `;${name}=` + entries.map(([k, v]) => `${enc(k)},${enc(v)}`).join(',')
+        }
+        return `;${name}=${enc(value)}`
+    }
+
+    return serializeSimple(value, explode, enc)
+}
+
+const serializeSimple = (value: any, explode: boolean, enc: (v: any) => string): string => {
+    if (Array.isArray(value)) return value.map(enc).join(',')
+    if (isPlainObject(value)) {
+        return definedEntries(value)
+            .map(([k, v]) => (explode ? `${enc(k)}=${enc(v)}` : `${enc(k)},${enc(v)}`))
+            .join(',')
+    }
+    return enc(value)
+}
+
+/**
+ * Serializes a header parameter using the `simple` style. Header values are not percent-encoded.
+ */
+export const serializeHeaderParam = (value: any, parameter?: OpenAPIParameter): string => {
+    const { explode } = resolveStyle(parameter, 'header')
+    return serializeSimple(serializeContent(value, parameter), explode, toPrimitiveString)
+}
+
+/**
+ * Serializes cookie parameters into a `Cookie` header value using the `form` style.
+ */
+export const serializeCookieParams = (cookies: Record<string, any>, parameters: OpenAPIParameter[] = []): string => {
+    const pairs: string[] = []
+    for (const [name, raw] of definedEntries(cookies)) {
+        const parameter = parameters.find((p) => p.name === name && p.in === 'cookie')
+        const { explode } = resolveStyle(parameter, 'cookie')
+        const value = serializeContent(raw, parameter)
+        const enc = (v: any) => encode(toPrimitiveString(v))
+        if (Array.isArray(value) && explode) {
+            value.forEach((v) => pairs.push(`${name}=${enc(v)}`))
+        } else if (isPlainObject(value) && explode) {
+            definedEntries(value).forEach(([k, v]) => pairs.push(`${k}=${enc(v)}`))
+        } else {
+            pairs.push(`${name}=${serializeSimple(value, false, enc)}`)
+        }
+    }
+    return pairs.join('; ')
+}
+
+const serializeDeepObject = (prefix: string, value: any, enc: (v: any) => string): string[] => {
+    if (Array.isArray(value)) return value.flatMap((v) => serializeDeepObject(prefix, v, enc))
+    if (isPlainObject(value)) {
+        return definedEntries(value).flatMap(([k, v]) => serializeDeepObject(`${prefix}[${encode(k)}]`, v, enc))
+    }
+    return [`${prefix}=${enc(value)}`]
+}
+
+const serializeQueryParam = (name: string, raw: any, parameter?: OpenAPIParameter): string[] => {
+    const { style, explode } = resolveStyle(parameter, 'query')
+    const enc = (v: any) => encode(toPrimitiveString(v), parameter?.allowReserved)
+    const key = encode(name)
+    const value = serializeContent(raw, parameter)
+
+    if (style === 'deepObject') return serializeDeepObject(key, value, enc)
+
+    if (Array.isArray(value)) {
+        if (explode) return value.map((v) => `${key}=${enc(v)}`)
+        const delimiter = style === 'spaceDelimited' ? '%20' : style === 'pipeDelimited' ? '%7C' : ','
+        return [`${key}=${value.map(enc).join(delimiter)}`]
+    }
+
+    if (isPlainObject(value)) {
+        const entries = definedEntries(value)
+        if (explode) return entries.map(([k, v]) => `${encode(k)}=${enc(v)}`)
+        const delimiter = style === 'spaceDelimited' ? '%20' : style === 'pipeDelimited' ? '%7C' : ','
+        return [`${key}=${entries.map(([k, v]) => `${enc(k)}${delimiter}${enc(v)}`).join(delimiter)}`]
+    }
+
+    return [`${key}=${enc(value)}`]
+}
+
+/**
+ * Serializes query parameters according to the `style`, `explode` and `allowReserved` of each declared parameter.
+ * Undeclared parameters use the OpenAPI defaults (`form` style, exploded).
+ */
+export const serializeQueryParams = (params: Record<string, any>, parameters: OpenAPIParameter[] = []): string => {
+    return Object.entries(params)
+        .filter(([, value]) => value !== undefined && value !== null)
+        .flatMap(([name, value]) =>
+            serializeQueryParam(
+                name,
+                value,
+                parameters.find((p) => p.name === name && p.in === 'query'),
+            ),
+        )
+        .join('&')
+}
@@ -0,0 +1,28 @@
+import type { OpenAPIServer } from './document'
+
+/** Selects a server by its index in `servers` or by its description. */
+export type ServerSelector = number | string
+
+export const selectServer = (servers: OpenAPIServer[] = [], selector: ServerSelector = 0): OpenAPIServer => {
+    const server = typeof selector === 'number' ? servers[selector] : servers.find((s) => s.description === selector)
+    if (!server) throw new Error(`Server not found in spec: ${selector}`)
+    return server
+}
+
+/**
+ * Replaces `{variable}` placeholders in a server URL with the given values or the declared defaults.
+ * Throws if a value is not one of the declared `enum` values or a variable has no value.
+ */
+export const expandServerUrl = (server: OpenAPIServer, variables: Record<string, string> = {}): string => {
+    return server.url.replace(/\{([^}]+)\}/g, (_, name: string) => {
+        const declared = server.variables?.[name]
+        const value = variables[name] ?? declared?.default
+        if (value === undefined) throw new Error(`Missing server variable: ${name}`)
+        if (declared?.enum?.length && !declared.enum.includes(value)) {
+            throw new Error(
+                `Invalid value for server variable ${name}: ${value}. Expected one of ${declared.enum.join(', ')}`,
+            )
+        }
+        return value
+    })
+}
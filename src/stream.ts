@@ -0,0 +1,340 @@
+import { AxiosError, AxiosRequestConfig, CanceledError, isCancel } from 'axios'
+import { z } from 'zod'
+import { OpenAPIResponse } from './document'
+import type { Logger } from './openapi'
+import { sleep } from './retry'
+import { getIssues, ValidationBehaviour } from './validation'
+import { ApiResponse, getProblemFromError, PROBLEM_CODE } from './wrapper'
+
+export type StreamFormat = 'sse' | 'ndjson'
+
+export interface ServerSentEvent<T = any> {
+    /** Defaults to `message`. */
+    event: string
+    /** The event data, parsed as JSON when possible. */
+    data: T
+    id?: string
+    retry?: number
+}
+
+export interface ReconnectOptions {
+    /** Maximum number of reconnects in a row without receiving an event. Defaults to 3. */
+    attempts?: number
+    /** Delay before reconnecting in milliseconds, unless the server sent a `retry` field. Defaults to 3000. */
+    delay?: number
+}
+
+/**
+ * Per-call options of generated methods for operations with streaming responses.
+ */
+export interface StreamOptions {
+    /** Streams the response. Defaults to the format of the response content type declared in the spec. */
+    stream?: boolean | StreamFormat
+    /** Reconnects with `Last-Event-ID` when the connection is lost. Enabled by default for Server-Sent Events. */
+    reconnect?: boolean | ReconnectOptions
+}
+
+/**
+ * Async iterable of the events of a streaming response. Server-Sent Events yield `ServerSentEvent`s,
+ * NDJSON yields the parsed lines.
+ */
+export interface EventStream<T = any> extends AsyncIterable<T> {
+    format: StreamFormat
+    /** Id of the last received Server-Sent Event. */
+    readonly lastEventId?: string
+    /** Stops reading the stream. */
+    close(): void
+}
+
+/**
+ * Thrown while iterating an `EventStream` when the stream fails, is cancelled or an event fails validation.
+ */
+export class EventStreamError extends Error {
+    public readonly issues?: z.core.$ZodIssue[]
+
+    constructor(public readonly problem: PROBLEM_CODE, public readonly originalError: unknown) {
+        super(`Event stream failed with ${problem}`, { cause: originalError })
+        this.name = 'EventStreamError'
+        this.issues = getIssues(originalError)
+    }
+}
+
+const STREAM_CONTENT_TYPES: Record<string, StreamFormat> = {
+    'text/event-stream': 'sse',
+    'application/x-ndjson': 'ndjson',
+    'application/ndjson': 'ndjson',
+    'application/jsonl': 'ndjson',
+    'application/x-jsonlines': 'ndjson',
+}
+
+export const getStreamFormat = (contentType: string | undefined): StreamFormat | undefined =>
+    contentType ? STREAM_CONTENT_TYPES[contentType.split(';')[0].trim().toLowerCase()] : undefined
+
+/**
+ * Returns the streaming format of the successful responses of an operation, if any.
+ */
+export const getResponseStreamFormat = (responses: Record<string, OpenAPIResponse>): StreamFormat | undefined => {
+    for (const [status, response] of Object.entries(responses)) {
+        if (!/^2/.test(status)) continue
+        for (const contentType of Object.keys(response.content ?? {})) {
+            const format = getStreamFormat(contentType)
+            if (format) return format
+        }
+    }
+    return undefined
+}
+
+const parseData = (data: string) => {
+    try {
+        return JSON.parse(data)
+    } catch {
+        return data
+    }
+}
+
+/**
+ * Reads the chunks of a Node stream, a web `ReadableStream` or a buffered body. Stops with a `CanceledError`
+ * when the signal aborts.
+ */
+async function* readChunks(body: any, signal?: AbortSignal): AsyncGenerator<string> {
+    const decoder = new TextDecoder()
+    const decode = (chunk: any) => (typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true }))
+    if (signal?.aborted) throw new CanceledError()
+
+    if (typeof body?.getReader === 'function') {
+        const reader = body.getReader()
+        const onAbort = () => reader.cancel().catch(() => undefined)
+        signal?.addEventListener('abort', onAbort)
+        try {
+            for (let result = await reader.read(); !result.done; result = await reader.read()) {
+                yield decode(result.value)
+            }
+        } finally {
+            signal?.removeEventListener('abort', onAbort)
+            reader.releaseLock()
+        }
+    } else if (body && typeof body[Symbol.asyncIterator] === 'function') {
+        const onAbort = () => body.destroy?.(new CanceledError())
+        signal?.addEventListener('abort', onAbort)
+        try {
+            for await (const chunk of body) yield decode(chunk)
+        } finally {
+            signal?.removeEventListener('abort', onAbort)
+        }
+    } else if (body !== undefined && body !== null) {
+        yield typeof body === 'string' || ArrayBuffer.isView(body) ? decode(body) : JSON.stringify(body)
+    }
+    if (signal?.aborted) throw new CanceledError()
+}
+
+async function* readLines(chunks: AsyncIterable<string>): AsyncGenerator<string> {
+    let buffer = ''
+    for await (const chunk of chunks) {
+        buffer += chunk
+        const lines = buffer.split(/\r\n|\r(?!$)|\n/)
+        buffer = lines.pop()!
+        yield* lines
+    }
+    if (buffer) yield buffer.replace(/\r$/, '')
+}
+
+/**
+ * Parses Server-Sent Events as specified by the HTML standard. Comments and events without data are skipped,
+ * `onRetry` is called for every `retry` field.
+ */
+export async function* parseServerSentEvents(
+    chunks: AsyncIterable<string>,
+    onRetry?: (retry: number) => void,
+): AsyncGenerator<ServerSentEvent> {
+    let data: string[] = []
+    let event = ''
+    let id: string | undefined
+    let retry: number | undefined
+
+    for await (const line of readLines(chunks)) {
+        if (line === '') {
+            if (data.length) yield { event: event || 'message', data: parseData(data.join('\n')), id, retry }
+            data = []
+            event = ''
+            retry = undefined
+            continue
+        }
+        if (line.startsWith(':')) continue
+
+        const index = line.indexOf(':')
+        const field = index === -1 ? line : line.slice(0, index)
+        const value = index === -1 ? '' : line.slice(index + 1).replace(/^ /, '')
+        if (field === 'data') data.push(value)
+        else if (field === 'event') event = value
+        else if (field === 'id' && !value.includes('\0')) id = value
+        else if (field === 'retry' && /^\d+$/.test(value)) {
+            retry = Number(value)
+            onRetry?.(retry)
+        }
+    }
+}
+
+export async function* parseNDJSON(chunks: AsyncIterable<string>): AsyncGenerator<any> {
+    for await (const line of readLines(chunks)) {
+        if (line.trim()) yield JSON.parse(line)
+    }
+}
+
+const RECONNECT_PROBLEMS = [
+    PROBLEM_CODE.CONNECTION_ERROR,
+    PROBLEM_CODE.NETWORK_ERROR,
+    PROBLEM_CODE.TIMEOUT_ERROR,
+    PROBLEM_CODE.SERVER_ERROR,
+    PROBLEM_CODE.UNKNOWN_ERROR,
+]
+
+const toStreamError = (e: unknown, signal?: AbortSignal): EventStreamError => {
+    if (e instanceof EventStreamError) return e
+    if (signal?.aborted || isCancel(e)) return new EventStreamError(PROBLEM_CODE.CANCEL_ERROR, e)
+    if (e instanceof SyntaxError) return new EventStreamError(PROBLEM_CODE.UNKNOWN_ERROR, e)
+    return new EventStreamError(getProblemFromError(e as AxiosError) ?? PROBLEM_CODE.UNKNOWN_ERROR, e)
+}
+
+/**
+ * Reads the body of a failed streaming request so that the error response carries the parsed body.
+ */
+const bufferBody = async (body: any) => {
+    if (!body || typeof body !== 'object' || ArrayBuffer.isView(body)) return body
+    if (typeof body.getReader !== 'function' && typeof body[Symbol.asyncIterator] !== 'function') return body
+    let text = ''
+    for await (const chunk of readChunks(body)) text += chunk
+    return text ? parseData(text) : undefined
+}
+
+export interface EventStreamRequestOptions {
+    format: StreamFormat
+    reconnect?: boolean | ReconnectOptions
+    validator?: z.ZodType
+    validationBehaviour?: ValidationBehaviour
+    /** Receives validation failures in the `warning` behaviour. Defaults to `console`. */
+    logger?: Logger
+}
+
+/**
+ * Sends a request with a streaming response type. A successful response carries an `EventStream` as `data`.
+ */
+export const requestEventStream = async (
+    request: (config: AxiosRequestConfig) => Promise<ApiResponse<any>>,
+    config: AxiosRequestConfig,
+    {
+        format,
+        reconnect = format === 'sse',
+        validator,
+        validationBehaviour = 'error',
+        logger = console,
+    }: EventStreamRequestOptions,
+): Promise<ApiResponse<EventStream>> => {
+    const controller = new AbortController()
+    const signal = config.signal as AbortSignal | undefined
+    const onAbort = () => controller.abort()
+    const release = () => signal?.removeEventListener?.('abort', onAbort)
+    if (signal?.aborted) controller.abort()
+    signal?.addEventListener?.('abort', onAbort)
+
+    const send = (headers?: Record<string, string>) =>
+        request({
+            ...config,
+            responseType: 'stream',
+            signal: controller.signal,
+            headers: {
+                Accept: format === 'sse' ? 'text/event-stream' : 'application/x-ndjson',
+                ...config.headers,
+                ...headers,
+            },
+        })
+
+    const first = await send()
+    if (!first.ok) {
+        release()
+        return { ...first, data: await bufferBody(first.data).catch(() => undefined) }
+    }
+
+    const { attempts = 3, delay = 3000 } = reconnect === true ? {} : reconnect || {}
+    const maxReconnects = reconnect ? attempts : 0
+    let lastEventId: string | undefined
+    let retryDelay = delay
+    let closed = false
+
+    const validate = (data: any) => {
+        if (!validator) return data
+        const result = validator.safeParse(data)
+        if (result.success) return result.data
+        if (validationBehaviour === 'error') throw new EventStreamError(PROBLEM_CODE.VALIDATION_ERROR, result.error)
+        logger.warn('Event validation failed:', result.error)
+        return data
+    }
+
+    async function* readEvents(body: any): AsyncGenerator<any> {
+        const chunks = readChunks(body, controller.signal)
+        if (format === 'ndjson') {
+            for await (const item of parseNDJSON(chunks)) yield validate(item)
+            return
+        }
+        for await (const event of parseServerSentEvents(chunks, (retry) => (retryDelay = retry))) {
+            if (event.id !== undefined) lastEventId = event.id
+            yield { ...event, data: validate(event.data) }
+        }
+    }
+
+    async function* iterate(): AsyncGenerator<any> {
+        let response: ApiResponse<any> = first
+        let reconnects = 0
+        try {
+            for (;;) {
+                let error: EventStreamError | undefined
+                if (response.ok) {
+                    try {
+                        for await (const event of readEvents(response.data)) {
+                            reconnects = 0
+                            yield event
+                        }
+                        // SSE servers end the connection to have the client reconnect
+                        if (format !== 'sse') return
+                    } catch (e) {
+                        error = toStreamError(e, controller.signal)
+                    }
+                } else {
+                    error = new EventStreamError(response.problem, response.originalError)
+                }
+
+                if (closed) return
+                if (error && !RECONNECT_PROBLEMS.includes(error.problem)) throw error
+                if (reconnects++ >= maxReconnects) {
+                    if (error) throw error
+                    return
+                }
+                try {
+                    await sleep(retryDelay, controller.signal)
+                } catch (e) {
+                    if (closed) return
+                    throw toStreamError(e, controller.signal)
+                }
+                response = await send(lastEventId !== undefined ? { 'Last-Event-ID': lastEventId } : undefined)
+            }
+        } finally {
+            // Releases the connection when the consumer stops iterating early
+            controller.abort()
+            release()
+        }
+    }
+
+    const iterator = iterate()
+    const stream: EventStream = {
+        format,
+        get lastEventId() {
+            return lastEventId
+        },
+        close: () => {
+            closed = true
+            controller.abort()
+            release()
+        },
+        [Symbol.asyncIterator]: () => iterator,
+    }
+    return { ...first, data: stream } as ApiResponse<EventStream>
+}
@@ -0,0 +1,283 @@
+import type {
+    OpenAPIComponents,
+    OpenAPIMediaType,
+    OpenAPIOAuthFlows,
+    OpenAPIOperation,
+    OpenAPIParameter,
+    OpenAPIPathItem,
+    OpenAPIRequestBody,
+    OpenAPIResponse,
+    OpenAPISchema,
+    OpenAPISecurityScheme,
+    OpenAPIServer,
+    OpenAPISpec,
+    ParameterStyle,
+} from './document'
+
+/** Swagger 2.0 document. Only the fields needed for the conversion are typed. */
+export interface SwaggerSpec {
+    swagger: string
+    info?: any
+    host?: string
+    basePath?: string
+    schemes?: string[]
+    consumes?: string[]
+    produces?: string[]
+    paths?: Record<string, any>
+    definitions?: Record<string, any>
+    parameters?: Record<string, any>
+    responses?: Record<string, any>
+    securityDefinitions?: Record<string, any>
+    security?: Record<string, string[]>[]
+    tags?: any[]
+    externalDocs?: any
+    [extension: string]: any
+}
+
+const SCHEMA_KEYWORDS = [
+    'type',
+    'format',
+    'items',
+    'enum',
+    'default',
+    'minimum',
+    'maximum',
+    'exclusiveMinimum',
+    'exclusiveMaximum',
+    'multipleOf',
+    'minLength',
+    'maxLength',
+    'pattern',
+    'minItems',
+    'maxItems',
+    'uniqueItems',
+]
+
+const METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch']
+
+export const isSwaggerSpec = (spec: any): spec is SwaggerSpec =>
+    typeof spec?.swagger === 'string' && spec.swagger.startsWith('2')
+
+const rewriteRefs = (node: any): any => {
+    if (Array.isArray(node)) return node.map(rewriteRefs)
+    if (!node || typeof node !== 'object') return node
+    const result: Record<string, any> = {}
+    for (const [key, value] of Object.entries(node)) {
+        result[key] =
+            key === '$ref' && typeof value === 'string'
+                ? value
+                      .replace(/^#\/definitions\//, '#/components/schemas/')
+                      .replace(/^#\/parameters\//, '#/components/parameters/')
+                      .replace(/^#\/responses\//, '#/components/responses/')
+                : rewriteRefs(value)
+    }
+    return result
+}
+
+const convertSchema = (schema: any): OpenAPISchema => {
+    const converted = rewriteRefs(schema ?? {})
+    if (converted.type === 'file') return { ...converted, type: 'string', format: 'binary' }
+    return converted
+}
+
+const collectionFormatStyle = (
+    collectionFormat: string | undefined,
+    location: string,
+): { style?: ParameterStyle; explode?: boolean } => {
+    switch (collectionFormat) {
+        case 'multi':
+            return { style: 'form', explode: true }
+        case 'ssv':
+            return { style: 'spaceDelimited', explode: false }
+        case 'pipes':
+            return { style: 'pipeDelimited', explode: false }
+        default:
+            return location === 'query' || location === 'cookie'
+                ? { style: 'form', explode: false }
+                : { style: 'simple', explode: false }
+    }
+}
+
+const convertParameter = (parameter: any): OpenAPIParameter => {
+    const schema: Record<string, any> = {}
+    for (const keyword of SCHEMA_KEYWORDS) {
+        if (parameter[keyword] !== undefined) schema[keyword] = parameter[keyword]
+    }
+    const extensions = Object.fromEntries(Object.entries(parameter).filter(([key]) => key.startsWith('x-')))
+    const isArray = parameter.type === 'array'
+    return {
+        ...extensions,
+        name: parameter.name,
+        in: parameter.in,
+        description: parameter.description,
+        required: parameter.in === 'path' ? true : parameter.required,
+        ...(parameter.allowEmptyValue !== undefined ? { allowEmptyValue: parameter.allowEmptyValue } : {}),
+        schema: convertSchema(schema),
+        ...(isArray ? collectionFormatStyle(parameter.collectionFormat, parameter.in) : {}),
+    }
+}
+
+const toContent = (mediaTypes: string[], mediaType: OpenAPIMediaType): Record<string, OpenAPIMediaType> =>
+    Object.fromEntries(mediaTypes.map((type) => [type, mediaType]))
+
+const convertFormData = (parameters: any[], consumes: string[]): OpenAPIRequestBody => {
+    const properties: Record<string, OpenAPISchema> = {}
+    const required: string[] = []
+    for (const parameter of parameters) {
+        properties[parameter.name] = convertParameter(parameter).schema!
+        if (parameter.description) properties[parameter.name].description = parameter.description
+        if (parameter.required) required.push(parameter.name)
+    }
+    const hasFile = parameters.some((p) => p.type === 'file')
+    const mediaType =
+        hasFile || consumes.includes('multipart/form-data')
+            ? 'multipart/form-data'
+            : 'application/x-www-form-urlencoded'
+    return {
+        required: required.length > 0,
+        content: {
+            [mediaType]: { schema: { type: 'object', properties, ...(required.length ? { required } : {}) } },
+        },
+    }
+}
+
+const convertResponse = (response: any, produces: string[]): OpenAPIResponse => {
+    if (response.$ref) return rewriteRefs(response)
+    const converted: OpenAPIResponse = { description: response.description ?? '' }
+    if (response.schema) {
+        const schema = convertSchema(response.schema)
+        converted.content = toContent(produces.length ? produces : ['application/json'], { schema })
+        for (const [type, example] of Object.entries(response.examples ?? {})) {
+            converted.content[type] = { ...converted.content[type], schema, example }
+        }
+    }
+    if (response.headers) {
+        converted.headers = Object.fromEntries(
+            Object.entries(response.headers).map(([name, header]: [string, any]) => [
+                name,
+                { description: header.description, schema: convertSchema(header) },
+            ]),
+        )
+    }
+    return converted
+}
+
+const convertSecurityScheme = (scheme: any): OpenAPISecurityScheme => {
+    const description = scheme.description ? { description: scheme.description } : {}
+    if (scheme.type === 'basic') return { type: 'http', scheme: 'basic', ...description }
+    if (scheme.type === 'apiKey') return { type: 'apiKey', name: scheme.name, in: scheme.in, ...description }
+    const flow = { authorizationUrl: scheme.authorizationUrl, tokenUrl: scheme.tokenUrl, scopes: scheme.scopes ?? {} }
+    const flows: OpenAPIOAuthFlows = {}
+    if (scheme.flow === 'implicit') flows.implicit = flow
+    if (scheme.flow === 'password') flows.password = flow
+    if (scheme.flow === 'application') flows.clientCredentials = flow
+    if (scheme.flow === 'accessCode') flows.authorizationCode = flow
+    return { type: 'oauth2', flows, ...description }
+}
+
+const convertServers = (spec: SwaggerSpec): OpenAPIServer[] => {
+    const basePath = spec.basePath ?? ''
+    if (!spec.host) return [{ url: basePath || '/' }]
+    return (spec.schemes?.length ? spec.schemes : ['https']).map((scheme) => ({
+        url: `${scheme}://${spec.host}${basePath}`,
+    }))
+}
+
+/**
+ * Converts a Swagger 2.0 document to the OpenAPI 3 model.
+ */
+export const convertSwaggerSpec = (spec: SwaggerSpec): OpenAPISpec => {
+    const resolveParameter = (parameter: any) =>
+        parameter.$ref ? spec.parameters?.[parameter.$ref.replace(/^#\/parameters\//, '')] ?? parameter : parameter
+
+    const convertOperation = (operation: any, pathParameters: any[]): OpenAPIOperation => {
+        const {
+            parameters = [],
+            responses = {},
+            consumes = spec.consumes ?? [],
+            produces = spec.produces ?? [],
+            schemes,
+            ...rest
+        } = operation
+        const operationParameters = parameters.map(resolveParameter)
+        const effective = [
+            ...pathParameters.filter((p) => !operationParameters.some((o: any) => o.name === p.name && o.in === p.in)),
+            ...operationParameters,
+        ]
+
+        const body = effective.find((p) => p.in === 'body')
+        const formData = effective.filter((p) => p.in === 'formData')
+        const converted: OpenAPIOperation = {
+            ...rewriteRefs(rest),
+            parameters: effective.filter((p) => p.in !== 'body' && p.in !== 'formData').map(convertParameter),
+            responses: Object.fromEntries(
+                Object.entries(responses).map(([status, response]) => [status, convertResponse(response, produces)]),
+            ),
+        }
+        if (body) {
+            converted.requestBody = {
+                description: body.description,
+                required: body.required,
+                content: toContent(consumes.length ? consumes : ['application/json'], {
+                    schema: convertSchema(body.schema),
+                }),
+            }
+        } else if (formData.length) {
+            converted.requestBody = convertFormData(formData, consumes)
+        }
+        return converted
+    }
+
+    const paths: Record<string, OpenAPIPathItem> = {}
+    for (const [path, pathItem] of Object.entries(spec.paths ?? {})) {
+        const pathParameters = (pathItem.parameters ?? []).map(resolveParameter)
+        const converted: OpenAPIPathItem = {}
+        for (const [key, value] of Object.entries(pathItem)) {
+            if (METHODS.includes(key)) {
+                ;(converted as any)[key] = convertOperation(value, pathParameters)
+            } else if (key !== 'parameters') {
+                ;(converted as any)[key] = rewriteRefs(value)
+            }
+        }
+        paths[path] = converted
+    }
+
+    const components: OpenAPIComponents = {}
+    if (spec.definitions) {
+        components.schemas = Object.fromEntries(
+            Object.entries(spec.definitions).map(([name, schema]) => [name, convertSchema(schema)]),
+        )
+    }
+    const sharedParameters = Object.entries(spec.parameters ?? {}).filter(
+        ([, p]) => p.in !== 'body' && p.in !== 'formData',
+    )
+    if (sharedParameters.length) {
+        components.parameters = Object.fromEntries(sharedParameters.map(([name, p]) => [name, convertParameter(p)]))
+    }
+    if (spec.responses) {
+        components.responses = Object.fromEntries(
+            Object.entries(spec.responses).map(([name, response]) => [
+                name,
+                convertResponse(response, spec.produces ?? []),
+            ]),
+        )
+    }
+    if (spec.securityDefinitions) {
+        components.securitySchemes = Object.fromEntries(
+            Object.entries(spec.securityDefinitions).map(([name, scheme]) => [name, convertSecurityScheme(scheme)]),
+        )
+    }
+
+    const extensions = Object.fromEntries(Object.entries(spec).filter(([key]) => key.startsWith('x-')))
+    return {
+        ...extensions,
+        openapi: '3.0.3',
+        info: spec.info,
+        servers: convertServers(spec),
+        paths,
+        components,
+        ...(spec.security ? { security: spec.security } : {}),
+        ...(spec.tags ? { tags: spec.tags } : {}),
+        ...(spec.externalDocs ? { externalDocs: spec.externalDocs } : {}),
+    }
+}
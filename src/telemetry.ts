@@ -0,0 +1,344 @@
+import { AxiosError, AxiosHeaders } from 'axios'
+import type { z } from 'zod'
+import { getRequestUrl } from './cache'
+import { REDACTED } from './fixtures'
+import type { Middleware } from './middleware'
+import {
+    ApiInstance,
+    ApiRequestConfig,
+    getProblemFromError,
+    getProblemFromStatus,
+    PROBLEM_CODE,
+    TransportLayer,
+    useTransport,
+} from './wrapper'
+
+export type TelemetryEventType = 'start' | 'end' | 'retry' | 'validationFailure'
+
+export interface TelemetryEvent {
+    type: TelemetryEventType
+    timestamp: number
+    operationId?: string
+    method: string
+    /** Path template of the operation, or the path of the URL for other requests. */
+    path: string
+    /** Full URL with sensitive query parameters redacted. */
+    url?: string
+    /** Request headers with sensitive headers redacted. Only on `start` events. */
+    headers?: Record<string, string>
+    traceId?: string
+    spanId?: string
+    status?: number
+    problem?: PROBLEM_CODE | null
+    /** Milliseconds from the start of the request. Only on `end` events. */
+    duration?: number
+    /** Number of the attempt about to be sent on `retry` events, or of the last attempt on `end` events. */
+    attempt?: number
+    issues?: z.core.$ZodIssue[]
+}
+
+/**
+ * W3C trace context of a request. Stored on the request config as `trace`.
+ */
+export interface TraceContext {
+    traceId: string
+    spanId: string
+    traceFlags: number
+    traceState?: string
+}
+
+export type AttributeValue = string | number | boolean
+
+/**
+ * The parts of an OpenTelemetry `Span` used by the client.
+ */
+export interface SpanLike {
+    spanContext(): { traceId: string; spanId: string; traceFlags: number; traceState?: { serialize(): string } }
+    setAttribute(key: string, value: AttributeValue): unknown
+    addEvent(name: string, attributes?: Record<string, AttributeValue>): unknown
+    setStatus(status: { code: number; message?: string }): unknown
+    end(): void
+}
+
+/**
+ * The parts of an OpenTelemetry `Tracer` used by the client.
+ */
+export interface TracerLike {
+    startSpan(name: string, options?: { kind?: number; attributes?: Record<string, AttributeValue> }): SpanLike
+}
+
+/**
+ * The parts of an OpenTelemetry `Meter` used by the client.
+ */
+export interface MeterLike {
+    createHistogram(
+        name: string,
+        options?: { description?: string; unit?: string },
+    ): { record(value: number, attributes?: Record<string, AttributeValue>): void }
+}
+
+export interface TelemetryConfig {
+    /** Receives every event. */
+    onEvent?: (event: TelemetryEvent) => void
+    /** Starts a client span for each request, e.g. `trace.getTracer('api')` from `@opentelemetry/api`. */
+    tracer?: TracerLike
+    /** Records the duration of requests in the `http.client.request.duration` histogram. */
+    meter?: MeterLike
+    /** Adds `traceparent` and `tracestate` headers to requests. Defaults to true. */
+    propagate?: boolean
+    /** Sent in the `tracestate` header when neither the request nor the span has one. */
+    traceState?: string
+    /** Query parameters whose values are replaced in event URLs and span attributes. */
+    redactQueryParams?: string[]
+    /** Headers whose values are replaced in events. Defaults to auth and cookie headers. */
+    redactHeaders?: string[]
+}
+
+export interface Telemetry {
+    /** Emits start and end events around each request. */
+    layer: TransportLayer
+    /** Adds trace headers to each attempt and emits retry events. */
+    attemptLayer: TransportLayer
+    emit(event: TelemetryEvent): void
+}
+
+const DEFAULT_REDACTED_HEADERS = ['authorization', 'proxy-authorization', 'cookie', 'x-api-key']
+
+// OpenTelemetry SpanKind.CLIENT and SpanStatusCode.OK / ERROR
+const SPAN_KIND_CLIENT = 2
+const SPAN_STATUS_OK = 1
+const SPAN_STATUS_ERROR = 2
+
+const TRACEPARENT = /^00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/
+
+const getRandomBytes = (count: number) => {
+    const bytes = new Uint8Array(count)
+    // Node only has a global crypto from version 19, and trace ids need not be unguessable
+    if (globalThis.crypto?.getRandomValues) return globalThis.crypto.getRandomValues(bytes)
+    return bytes.map(() => Math.floor(Math.random() * 256))
+}
+
+const randomHex = (bytes: number) =>
+    Array.from(getRandomBytes(bytes), (byte) => byte.toString(16).padStart(2, '0')).join('')
+
+/**
+ * Formats a trace context as a `traceparent` header.
+ */
+export const formatTraceparent = ({ traceId, spanId, traceFlags }: TraceContext): string =>
+    `00-${traceId}-${spanId}-${traceFlags.toString(16).padStart(2, '0')}`
+
+/**
+ * Parses a `traceparent` header. Returns undefined for unsupported versions and malformed values.
+ */
+export const parseTraceparent = (value: unknown): TraceContext | undefined => {
+    const match = typeof value === 'string' ? TRACEPARENT.exec(value.trim().toLowerCase()) : null
+    if (!match) return undefined
+    return { traceId: match[1], spanId: match[2], traceFlags: parseInt(match[3], 16) }
+}
+
+const toTraceContext = (span: SpanLike): TraceContext => {
+    const { traceId, spanId, traceFlags, traceState } = span.spanContext()
+    return { traceId, spanId, traceFlags, traceState: traceState?.serialize() || undefined }
+}
+
+/**
+ * Continues the trace of a `traceparent` header given with the request, or starts a new one.
+ */
+const createTraceContext = (headers: ApiRequestConfig['headers']): TraceContext => {
+    const parent = parseTraceparent(headers.get('traceparent'))
+    return {
+        traceId: parent?.traceId ?? randomHex(16),
+        spanId: randomHex(8),
+        traceFlags: parent?.traceFlags ?? 1,
+    }
+}
+
+/**
+ * Creates the transport layers that trace requests and report them as events, spans and metrics.
+ */
+export const createTelemetry = (config: TelemetryConfig = {}): Telemetry => {
+    const redactedHeaders = (config.redactHeaders ?? DEFAULT_REDACTED_HEADERS).map((name) => name.toLowerCase())
+    const redactedParams = config.redactQueryParams ?? []
+    const duration = config.meter?.createHistogram('http.client.request.duration', {
+        description: 'Duration of HTTP client requests',
+        unit: 's',
+    })
+    const spans = new WeakMap<TraceContext, SpanLike>()
+
+    const emit = (event: TelemetryEvent) => config.onEvent?.(event)
+
+    const redactUrl = (url: URL) => {
+        const redacted = new URL(url.href)
+        for (const name of redactedParams) {
+            if (redacted.searchParams.has(name)) redacted.searchParams.set(name, REDACTED)
+        }
+        return redacted.href
+    }
+
+    const redactHeaders = (headers: ApiRequestConfig['headers']) =>
+        Object.fromEntries(
+            Object.entries(headers.toJSON(true)).map(([name, value]) => [
+                name.toLowerCase(),
+                redactedHeaders.includes(name.toLowerCase()) ? REDACTED : String(value),
+            ]),
+        )
+
+    const layer: TransportLayer = async (requestConfig, next) => {
+        const headers = AxiosHeaders.from(requestConfig.headers)
+        const method = (requestConfig.method ?? 'get').toLowerCase()
+        const requestUrl = getRequestUrl(requestConfig)
+        const url = redactUrl(requestUrl)
+        const path = requestConfig.pathTemplate ?? requestUrl.pathname
+        const { operationId } = requestConfig
+        const attributes: Record<string, AttributeValue> = {
+            'http.request.method': method.toUpperCase(),
+            'url.full': url,
+            'url.template': path,
+            ...(operationId !== undefined ? { 'api.operation.id': operationId } : {}),
+        }
+
+        const span = config.tracer?.startSpan(operationId ?? `${method.toUpperCase()} ${path}`, {
+            kind: SPAN_KIND_CLIENT,
+            attributes,
+        })
+        const trace = span ? toTraceContext(span) : createTraceContext(headers)
+        trace.traceState = headers.get('tracestate')?.toString() ?? trace.traceState ?? config.traceState
+        if (span) spans.set(trace, span)
+        requestConfig.trace = trace
+
+        const start = Date.now()
+        const base = { operationId, method, path, url, traceId: trace.traceId, spanId: trace.spanId }
+        emit({ ...base, type: 'start', timestamp: start, headers: redactHeaders(headers) })
+
+        const finish = (status: number | undefined, problem: PROBLEM_CODE | null | undefined) => {
+            const end = Date.now()
+            const attempt = requestConfig.attempts ?? 1
+            emit({ ...base, type: 'end', timestamp: end, status, problem, duration: end - start, attempt })
+            duration?.record((end - start) / 1000, {
+                'http.request.method': attributes['http.request.method'],
+                'url.template': path,
+                ...(operationId !== undefined ? { 'api.operation.id': operationId } : {}),
+                ...(status !== undefined ? { 'http.response.status_code': status } : {}),
+                ...(problem ? { 'error.type': problem } : {}),
+            })
+            if (!span) return
+            if (status !== undefined) span.setAttribute('http.response.status_code', status)
+            if (attempt > 1) span.setAttribute('http.request.resend_count', attempt - 1)
+            if (problem) {
+                span.setAttribute('error.type', problem)
+                span.setStatus({ code: SPAN_STATUS_ERROR, message: problem })
+            } else {
+                span.setStatus({ code: SPAN_STATUS_OK })
+            }
+            span.end()
+        }
+
+        try {
+            const response = await next(requestConfig)
+            finish(response.status, getProblemFromStatus(response.status))
+            return response
+        } catch (e) {
+            const error = e as AxiosError
+            finish(
+                error?.response?.status,
+                error?.isAxiosError ? getProblemFromError(error) : PROBLEM_CODE.UNKNOWN_ERROR,
+            )
+            throw e
+        }
+    }
+
+    const attemptLayer: TransportLayer = (requestConfig, next) => {
+        const { trace } = requestConfig
+        if (!trace) return next(requestConfig)
+
+        if (config.propagate !== false) {
+            requestConfig.headers.set('traceparent', formatTraceparent(trace))
+            if (trace.traceState) requestConfig.headers.set('tracestate', trace.traceState)
+        }
+        const attempt = requestConfig.attempts ?? 1
+        if (attempt > 1) {
+            const method = (requestConfig.method ?? 'get').toLowerCase()
+            const requestUrl = getRequestUrl(requestConfig)
+            emit({
+                type: 'retry',
+                timestamp: Date.now(),
+                operationId: requestConfig.operationId,
+                method,
+                path: requestConfig.pathTemplate ?? requestUrl.pathname,
+                url: redactUrl(requestUrl),
+                traceId: trace.traceId,
+                spanId: trace.spanId,
+                attempt,
+            })
+            spans.get(trace)?.addEvent('retry', { 'http.request.resend_count': attempt - 1 })
+        }
+        return next(requestConfig)
+    }
+
+    return { layer, attemptLayer, emit }
+}
+
+const telemetries = new WeakMap<object, Telemetry>()
+
+/**
+ * Adds telemetry to an instance created with `createApi`.
+ */
+export const useTelemetry = (api: ApiInstance, config: TelemetryConfig = {}): Telemetry => {
+    const telemetry = createTelemetry(config)
+    telemetries.set(api, telemetry)
+    useTransport(api, 'telemetry', telemetry.layer)
+    useTransport(api, 'attempt', telemetry.attemptLayer)
+    return telemetry
+}
+
+/**
+ * Telemetry added to an instance with `useTelemetry`, e.g. to emit events of your own.
+ */
+export const getTelemetry = (api: ApiInstance): Telemetry | undefined => telemetries.get(api)
+
+/**
+ * Emits `validationFailure` events for responses that fail request or response validation.
+ */
+export const createValidationTelemetryMiddleware =
+    (telemetry: Telemetry): Middleware =>
+    async (context, next) => {
+        const res = await next()
+        if (
+            !res.ok &&
+            (res.problem === PROBLEM_CODE.VALIDATION_ERROR || res.problem === PROBLEM_CODE.REQUEST_VALIDATION_ERROR)
+        ) {
+            const trace = (res.config as ApiRequestConfig | undefined)?.trace
+            telemetry.emit({
+                type: 'validationFailure',
+                timestamp: Date.now(),
+                operationId: context.operationId,
+                method: context.method,
+                path: context.path,
+                traceId: trace?.traceId,
+                spanId: trace?.spanId,
+                status: res.status,
+                problem: res.problem,
+                issues: res.issues,
+            })
+        }
+        return res
+    }
+
+/**
+ * Keeps events in memory, e.g. for tests: `telemetry: { onEvent: collector.collect }`.
+ */
+export class MemoryTelemetryCollector {
+    events: TelemetryEvent[] = []
+
+    collect = (event: TelemetryEvent) => {
+        this.events.push(event)
+    }
+
+    ofType(type: TelemetryEventType): TelemetryEvent[] {
+        return this.events.filter((event) => event.type === type)
+    }
+
+    clear() {
+        this.events = []
+    }
+}
@@ -0,0 +1,153 @@
+import { AxiosError } from 'axios'
+import { z } from 'zod'
+import type { Middleware } from './middleware'
+import type { Logger } from './openapi'
+import { ApiErrorResponse, PROBLEM_CODE } from './wrapper'
+
+export type ValidationBehaviour = 'error' | 'warning'
+
+/**
+ * Schemas for the parameters and the body of a single operation.
+ */
+export interface RequestValidator {
+    params?: z.ZodType
+    body?: z.ZodType
+}
+
+/**
+ * Either a single schema for successful responses, or schemas keyed by status code (`200`),
+ * status range (`2XX`) or `default`, like OpenAPI `responses`.
+ */
+export type ResponseValidator = z.ZodType | Record<string, z.ZodType>
+
+export interface ValidatedRequest {
+    params: any
+    data: any
+}
+
+/**
+ * Validates the parameters and the body of a request. Throws the `ZodError` of the first failing schema,
+ * otherwise returns the parsed values so that defaults and coercions can be applied.
+ */
+export const validateRequest = (validator: RequestValidator, params: any, data: any): ValidatedRequest => {
+    return {
+        params: validator.params ? validator.params.parse(params) : params,
+        data: validator.body ? validator.body.parse(data) : data,
+    }
+}
+
+/** Code of the errors of responses that fail validation. */
+export const ERR_VALIDATION = 'ERR_VALIDATION'
+/** Code of the errors of requests that fail validation and are not sent. */
+export const ERR_REQUEST_VALIDATION = 'ERR_REQUEST_VALIDATION'
+
+/**
+ * The zod issues of a `ZodError`, or of an error caused by one.
+ */
+export const getIssues = (e: unknown): z.core.$ZodIssue[] | undefined =>
+    e instanceof z.ZodError
+        ? e.issues
+        : e instanceof Error && e.cause instanceof z.ZodError
+        ? e.cause.issues
+        : undefined
+
+const toAxiosError = (message: string, code: string, cause: unknown, config?: AxiosError['config']) => {
+    const error = new AxiosError(message, code, config)
+    error.cause = cause
+    return error
+}
+
+/**
+ * Picks the schema that applies to a response. A single schema only applies to successful responses.
+ */
+export const selectResponseValidator = (
+    validator: ResponseValidator | undefined,
+    status: number | undefined,
+    ok: boolean,
+): z.ZodType | undefined => {
+    if (!validator || status === undefined) return undefined
+    if (validator instanceof z.ZodType) return ok ? validator : undefined
+    const range = `${Math.floor(status / 100)}XX`
+    return validator[String(status)] ?? validator[range] ?? validator[range.toLowerCase()] ?? validator.default
+}
+
+export interface RequestValidationOptions {
+    behaviour?: ValidationBehaviour
+    /** Passes the parsed values on instead of the original ones. */
+    useParsedRequest?: boolean
+    /** Receives failures in the `warning` behaviour. Defaults to `console`. */
+    logger?: Logger
+}
+
+/**
+ * Validates parameters and bodies before the request is sent. Failing requests settle with the
+ * `REQUEST_VALIDATION_ERROR` problem, or are sent anyway after a warning.
+ */
+export const createRequestValidationMiddleware =
+    (validators: Record<string, RequestValidator>, options: RequestValidationOptions = {}): Middleware =>
+    async (context, next) => {
+        const validator = validators[context.operationId]
+        // Pages followed by URL have no parameters to validate
+        if (!validator || context.url !== undefined) return next()
+
+        let parsed: ValidatedRequest
+        try {
+            parsed = validateRequest(validator, context.params, context.body)
+        } catch (e) {
+            if (options.behaviour === 'warning') {
+                const logger = options.logger ?? console
+                logger.warn(`Request validation of ${context.operationId} failed:`, e)
+                return next()
+            }
+            const response: ApiErrorResponse<any> = {
+                ok: false,
+                problem: PROBLEM_CODE.REQUEST_VALIDATION_ERROR,
+                originalError: toAxiosError('Request validation failed', ERR_REQUEST_VALIDATION, e),
+                issues: getIssues(e),
+                data: context.body,
+                // The request was never sent
+                status: 0,
+            }
+            return response
+        }
+        return next(options.useParsedRequest ? { ...context, params: parsed.params, body: parsed.data } : context)
+    }
+
+/**
+ * Validates response bodies. Failing responses turn into the `VALIDATION_ERROR` problem, or are passed on after
+ * a warning. Successful validation replaces the data with the parsed output.
+ */
+export const createResponseValidationMiddleware =
+    (
+        validators: Record<string, ResponseValidator>,
+        behaviour: ValidationBehaviour = 'error',
+        logger: Logger = console,
+    ): Middleware =>
+    async (context, next) => {
+        const res = await next()
+        // Events of streaming responses are validated one by one
+        if (res.config?.responseType === 'stream') return res
+        const validator = selectResponseValidator(validators[context.operationId], res.status, res.ok)
+        if (!validator) return res
+
+        const result = validator.safeParse(res.data)
+        if (result.success) return { ...res, data: result.data }
+        if (behaviour === 'error') {
+            const response: ApiErrorResponse<any> = {
+                ok: false,
+                problem: PROBLEM_CODE.VALIDATION_ERROR,
+                originalError: toAxiosError('Response validation failed', ERR_VALIDATION, result.error, res.config),
+                issues: result.error.issues,
+                data: res.data,
+                status: res.status,
+                headers: res.headers,
+                config: res.config,
+                duration: res.duration,
+                queueTime: res.queueTime,
+                attempts: res.attempts,
+            }
+            return response
+        }
+        logger.warn(`Response validation of ${context.operationId} failed:`, result.error)
+        return res
+    }
@@ -0,0 +1,476 @@
+import type { IncomingMessage, ServerResponse } from 'http'
+import type { z } from 'zod'
+import {
+    HTTP_METHODS,
+    normalizeSpec,
+    OpenAPICallback,
+    OpenAPIOperation,
+    OpenAPIRequestBody,
+    OpenAPISpec,
+    resolveOperation,
+    resolvePathItem,
+    resolveRef,
+} from './document'
+import { BuildClientOptions, Logger, nameOperations } from './openapi'
+import type { ValidationBehaviour } from './validation'
+import type { Methods } from './wrapper'
+
+/**
+ * An incoming request, independent of the server framework.
+ */
+export interface WebhookRequest {
+    method: string
+    /** Path of the request, optionally with a query string or as a full URL. */
+    url: string
+    headers: Record<string, string | string[] | undefined>
+    /** Body as received. Needed to verify signatures. */
+    rawBody?: string | Uint8Array
+    /** Parsed body. Parsed from `rawBody` by content type when omitted. */
+    body?: unknown
+}
+
+export interface WebhookResponse {
+    status: number
+    headers?: Record<string, string>
+    body?: unknown
+}
+
+/**
+ * A webhook from the spec's `webhooks`, or a callback of one of its operations.
+ */
+export interface WebhookRoute {
+    /** The webhook name, or `operationName.callbackName` for callbacks. Handlers and validators are keyed by it. */
+    key: string
+    kind: 'webhook' | 'callback'
+    /** Name of the webhook or callback. */
+    name: string
+    /** Method name of the operation that declares the callback, prefixed by its namespace when it has one. */
+    operationName?: string
+    /** Runtime expression of the callback URL, e.g. `{$request.body#/callbackUrl}/events`. */
+    expression?: string
+    method: Methods
+    operation: OpenAPIOperation
+    requestBody?: OpenAPIRequestBody
+}
+
+export interface WebhookEvent<Payload = any> {
+    route: WebhookRoute
+    /** The validated body of the request. */
+    payload: Payload
+    request: WebhookRequest
+}
+
+/**
+ * Handles a webhook. Resolving without a response answers with 204 No Content.
+ */
+export type WebhookHandler<Payload = any> = (
+    event: WebhookEvent<Payload>,
+) => void | WebhookResponse | Promise<void | WebhookResponse>
+
+/**
+ * Handlers keyed by route key. `Payloads` maps the keys to the types of their payloads.
+ */
+export type WebhookHandlers<Payloads> = { [K in keyof Payloads]?: WebhookHandler<Payloads[K]> }
+
+/**
+ * Checks the signature of a request, usually an HMAC of `rawBody` sent in a header. Throws `SignatureError` for
+ * signatures that cannot be decoded.
+ */
+export type SignatureVerifier = (request: WebhookRequest, route: WebhookRoute) => boolean | Promise<boolean>
+
+/**
+ * Thrown by signature verifiers when a signature cannot be decoded, which is answered with 400 Bad Request.
+ */
+export class SignatureError extends Error {
+    constructor(message = 'Unreadable signature') {
+        super(message)
+        this.name = 'SignatureError'
+    }
+}
+
+/**
+ * The naming options of the client, so that callbacks are keyed by the method names the client exposes.
+ */
+export type WebhookNamingOptions = Pick<BuildClientOptions, 'operationName' | 'namespaceByTag'>
+
+export interface WebhookReceiverConfig<Payloads = Record<string, any>> extends WebhookNamingOptions {
+    handlers: WebhookHandlers<Payloads>
+    /** Schemas for payloads keyed by route key. */
+    validators?: Record<string, z.ZodType>
+    validationBehaviour?: ValidationBehaviour
+    /** Receives validation failures in the `warning` behaviour. Defaults to `console`. */
+    logger?: Logger
+    verify?: SignatureVerifier
+    /**
+     * Picks the route key of a request, e.g. from an `X-Event-Type` header. By default callbacks are matched by the
+     * literal parts of their expressions and webhooks by the last segment of the path.
+     */
+    resolveKey?: (request: WebhookRequest) => string | undefined
+    /**
+     * Receives errors thrown by handlers, by `resolveKey` and by `verify`, other than `SignatureError`, which are
+     * answered with 500 Internal Server Error. The event is missing for errors of `resolveKey` and `verify`.
+     */
+    onError?: (error: unknown, event?: WebhookEvent) => void
+}
+
+export interface WebhookReceiver {
+    routes: WebhookRoute[]
+    handle(request: WebhookRequest): Promise<WebhookResponse>
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * Matches the paths a callback expression can resolve to. Runtime expressions match anything, and so does an
+ * expression without literal parts, which returns undefined.
+ */
+const toPathPattern = (expression: string): RegExp | undefined => {
+    const parts = expression.replace(/^[a-z][a-z0-9+.-]*:\/\/[^/{]*/i, '').split(/\{\$[^}]*\}/)
+    if (parts.every((part) => !part.replace(/\//g, ''))) return undefined
+    return new RegExp(`^${parts.map(escapeRegExp).join('.*')}$`)
+}
+
+const getPathname = (url: string) => new URL(url, 'http://localhost').pathname
+
+const getHeader = (request: WebhookRequest, name: string): string | undefined => {
+    const entry = Object.entries(request.headers).find(([key]) => key.toLowerCase() === name)
+    const value = entry?.[1]
+    return Array.isArray(value) ? value[0] : value
+}
+
+const toText = (body: string | Uint8Array) => (typeof body === 'string' ? body : new TextDecoder().decode(body))
+
+const parseBody = (request: WebhookRequest): unknown => {
+    if (request.body !== undefined || request.rawBody === undefined) return request.body
+    const text = toText(request.rawBody)
+    if (!text) return undefined
+    const contentType = getHeader(request, 'content-type') ?? 'application/json'
+    if (contentType.includes('application/x-www-form-urlencoded')) return Object.fromEntries(new URLSearchParams(text))
+    if (/[/+]json\b/.test(contentType)) return JSON.parse(text)
+    return text
+}
+
+/**
+ * Lists the webhooks of a spec and the callbacks of its operations. Callbacks are keyed by the method names of a
+ * client built with the same naming options.
+ */
+export const getWebhookRoutes = (specOrDocument: OpenAPISpec, options: WebhookNamingOptions = {}): WebhookRoute[] => {
+    const spec = normalizeSpec(specOrDocument)
+    const routes: WebhookRoute[] = []
+    const addRoutes = (
+        pathItemRef: Parameters<typeof resolvePathItem>[1],
+        route: Omit<WebhookRoute, 'method' | 'operation'>,
+    ) => {
+        const pathItem = resolvePathItem(spec, pathItemRef)
+        for (const method of HTTP_METHODS) {
+            const operation = pathItem[method]
+            if (!operation) continue
+            const { requestBody } = resolveOperation(spec, route.name, method, pathItem, operation)
+            routes.push({ ...route, method, operation, requestBody })
+        }
+    }
+
+    for (const [name, pathItem] of Object.entries(spec.webhooks ?? {})) {
+        addRoutes(pathItem, { key: name, kind: 'webhook', name })
+    }
+    // Nothing is reserved, as there is no api instance
+    for (const { name: methodName, namespace, specOperation } of nameOperations(spec, options, () => false)) {
+        const operationName = namespace !== undefined ? `${namespace}.${methodName}` : methodName
+        for (const [name, callback] of Object.entries(specOperation.operation.callbacks ?? {})) {
+            for (const [expression, pathItem] of Object.entries(resolveRef<OpenAPICallback>(spec, callback))) {
+                addRoutes(pathItem, {
+                    key: `${operationName}.${name}`,
+                    kind: 'callback',
+                    name,
+                    operationName,
+                    expression,
+                })
+            }
+        }
+    }
+    return routes
+}
+
+/**
+ * Receives the webhooks and callbacks declared by a spec, routing each request to the handler of its route.
+ * Answers 404 for unknown routes, 401 for invalid signatures, 400 for unreadable and 422 for invalid payloads.
+ */
+export const createWebhookReceiver = <Payloads = Record<string, any>>(
+    spec: OpenAPISpec,
+    config: WebhookReceiverConfig<Payloads>,
+): WebhookReceiver => {
+    const routes = getWebhookRoutes(spec, config)
+    const handlers = config.handlers as Record<string, WebhookHandler | undefined>
+    for (const key of Object.keys(handlers)) {
+        if (!routes.some((route) => route.key === key)) {
+            throw new Error(`The spec declares no webhook or callback ${key}`)
+        }
+    }
+    const patterns = new Map(
+        routes.map((route) => [route, route.expression !== undefined ? toPathPattern(route.expression) : undefined]),
+    )
+
+    const findRoute = (request: WebhookRequest): WebhookRoute | undefined => {
+        const method = request.method.toLowerCase()
+        const candidates = routes.filter((route) => route.method === method)
+        if (config.resolveKey) {
+            const key = config.resolveKey(request)
+            return candidates.find((route) => route.key === key)
+        }
+        const path = getPathname(request.url)
+        const name = decodeURIComponent(path.split('/').pop() ?? '')
+        return (
+            candidates.find((route) => patterns.get(route)?.test(path)) ??
+            candidates.find((route) => !patterns.get(route) && route.name === name)
+        )
+    }
+
+    const handle = async (request: WebhookRequest): Promise<WebhookResponse> => {
+        let route: WebhookRoute | undefined
+        try {
+            route = findRoute(request)
+        } catch (e) {
+            config.onError?.(e)
+            return { status: 500, body: { message: 'Internal Server Error' } }
+        }
+        const handler = route && handlers[route.key]
+        if (!route || !handler) return { status: 404, body: { message: 'Unknown webhook' } }
+        if (config.verify) {
+            let verified: boolean
+            try {
+                verified = await config.verify(request, route)
+            } catch (e) {
+                if (e instanceof SignatureError) return { status: 400, body: { message: 'Unreadable signature' } }
+                config.onError?.(e)
+                return { status: 500, body: { message: 'Internal Server Error' } }
+            }
+            if (!verified) return { status: 401, body: { message: 'Invalid signature' } }
+        }
+
+        let payload: unknown
+        try {
+            payload = parseBody(request)
+        } catch {
+            return { status: 400, body: { message: 'Invalid body' } }
+        }
+        const validator = config.validators?.[route.key]
+        if (validator) {
+            const result = validator.safeParse(payload)
+            if (result.success) {
+                payload = result.data
+            } else if (config.validationBehaviour === 'warning') {
+                const logger = config.logger ?? console
+                logger.warn(`Webhook validation of ${route.key} failed:`, result.error)
+            } else {
+                return { status: 422, body: { message: 'Invalid payload', issues: result.error.issues } }
+            }
+        }
+
+        const event: WebhookEvent = { route, payload, request }
+        try {
+            return (await handler(event)) ?? { status: 204 }
+        } catch (e) {
+            config.onError?.(e, event)
+            return { status: 500, body: { message: 'Internal Server Error' } }
+        }
+    }
+
+    return { routes, handle }
+}
+
+export interface HmacVerifierOptions {
+    /** Header that carries the signature, e.g. `x-hub-signature-256`. */
+    header: string
+    secret: string
+    /** Defaults to `SHA-256`. */
+    hash?: 'SHA-1' | 'SHA-256' | 'SHA-384' | 'SHA-512'
+    /** Encoding of the signature. Defaults to `hex`. */
+    encoding?: 'hex' | 'base64'
+    /** Text before the signature in the header, e.g. `sha256=`. */
+    prefix?: string
+}
+
+const decodeSignature = (signature: string, encoding: 'hex' | 'base64'): Uint8Array<ArrayBuffer> | undefined => {
+    if (encoding === 'base64') {
+        try {
+            return Uint8Array.from(atob(signature), (char) => char.charCodeAt(0))
+        } catch {
+            return undefined
+        }
+    }
+    if (!/^([0-9a-f]{2})+$/i.test(signature)) return undefined
+    return Uint8Array.from(signature.match(/../g)!, (byte) => parseInt(byte, 16))
+}
+
+// Node only has a global crypto from version 19
+const getSubtle = async (): Promise<SubtleCrypto> =>
+    globalThis.crypto?.subtle ?? ((await import('crypto')).webcrypto.subtle as SubtleCrypto)
+
+/**
+ * Verifies an HMAC of the raw body sent in a header. Requests without `rawBody` fail verification.
+ */
+export const createHmacVerifier = (options: HmacVerifierOptions): SignatureVerifier => {
+    const encoder = new TextEncoder()
+    const subtle = getSubtle()
+    const key = subtle.then((api) =>
+        api.importKey('raw', encoder.encode(options.secret), { name: 'HMAC', hash: options.hash ?? 'SHA-256' }, false, [
+            'verify',
+        ]),
+    )
+    const prefix = options.prefix ?? ''
+
+    return async (request) => {
+        const header = getHeader(request, options.header.toLowerCase())
+        if (request.rawBody === undefined || !header?.startsWith(prefix)) return false
+        const signature = decodeSignature(header.slice(prefix.length).trim(), options.encoding ?? 'hex')
+        if (!signature) throw new SignatureError()
+        const body =
+            typeof request.rawBody === 'string' ? encoder.encode(request.rawBody) : new Uint8Array(request.rawBody)
+        // WebCrypto compares in constant time
+        return (await subtle).verify('HMAC', await key, signature, body)
+    }
+}
+
+const readBody = async (stream: AsyncIterable<unknown>, limit = Infinity): Promise<Uint8Array> => {
+    const chunks: Uint8Array[] = []
+    let size = 0
+    for await (const chunk of stream) {
+        const bytes = typeof chunk === 'string' ? new TextEncoder().encode(chunk) : (chunk as Uint8Array)
+        size += bytes.byteLength
+        if (size > limit) throw new Error(`Body exceeds ${limit} bytes`)
+        chunks.push(bytes)
+    }
+    return Buffer.concat(chunks)
+}
+
+const serialize = ({ headers = {}, body }: WebhookResponse) => {
+    if (body === undefined) return { headers, payload: undefined }
+    if (typeof body === 'string') return { headers: { 'content-type': 'text/plain', ...headers }, payload: body }
+    return { headers: { 'content-type': 'application/json', ...headers }, payload: JSON.stringify(body) }
+}
+
+export interface NodeHandlerOptions {
+    /** Largest body in bytes that is read. Defaults to 1 MiB. */
+    limit?: number
+}
+
+/**
+ * Adapts a receiver to a Node `http` request listener. Bodies that cannot be read, e.g. because the client
+ * aborted the request, are answered with 400 Bad Request.
+ */
+export const createNodeHandler =
+    (receiver: WebhookReceiver, options: NodeHandlerOptions = {}) =>
+    async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+        let rawBody: Uint8Array | undefined
+        try {
+            rawBody = await readBody(req, options.limit ?? 1024 * 1024)
+        } catch {
+            // Aborted, failed or oversized bodies
+        }
+        let response: WebhookResponse = { status: 400, body: { message: 'Invalid body' } }
+        if (rawBody) {
+            try {
+                response = await receiver.handle({
+                    method: req.method ?? 'GET',
+                    url: req.url ?? '/',
+                    headers: req.headers,
+                    rawBody,
+                })
+            } catch {
+                response = { status: 500, body: { message: 'Internal Server Error' } }
+            }
+        }
+        // Aborted requests have no one left to answer
+        if (res.destroyed) return
+        const { headers, payload } = serialize(response)
+        res.writeHead(response.status, headers)
+        res.end(payload)
+    }
+
+/**
+ * The parts of an Express request used by the adapter.
+ */
+export interface ExpressRequestLike extends AsyncIterable<unknown> {
+    method: string
+    originalUrl?: string
+    url: string
+    headers: Record<string, string | string[] | undefined>
+    body?: unknown
+}
+
+/**
+ * The parts of an Express response used by the adapter.
+ */
+export interface ExpressResponseLike {
+    status(code: number): ExpressResponseLike
+    set(headers: Record<string, string>): ExpressResponseLike
+    send(body?: unknown): unknown
+}
+
+const isRaw = (body: unknown): body is string | Uint8Array => typeof body === 'string' || body instanceof Uint8Array
+
+/**
+ * Adapts a receiver to an Express route handler. Mount it after `express.raw()` to verify signatures, after
+ * `express.json()` for parsed bodies, or without a body parser to read the body itself.
+ */
+export const createExpressHandler =
+    (receiver: WebhookReceiver) =>
+    async (req: ExpressRequestLike, res: ExpressResponseLike, next?: (error?: unknown) => void): Promise<void> => {
+        try {
+            const body = isRaw(req.body)
+                ? { rawBody: req.body }
+                : req.body !== undefined
+                ? { body: req.body }
+                : { rawBody: await readBody(req) }
+            const response = await receiver.handle({
+                method: req.method,
+                url: req.originalUrl ?? req.url,
+                headers: req.headers,
+                ...body,
+            })
+            const { headers, payload } = serialize(response)
+            res.status(response.status).set(headers).send(payload)
+        } catch (e) {
+            if (!next) throw e
+            next(e)
+        }
+    }
+
+/**
+ * The parts of a Fastify request used by the adapter.
+ */
+export interface FastifyRequestLike {
+    method: string
+    url: string
+    headers: Record<string, string | string[] | undefined>
+    body?: unknown
+    rawBody?: string | Uint8Array
+}
+
+/**
+ * The parts of a Fastify reply used by the adapter.
+ */
+export interface FastifyReplyLike {
+    code(status: number): FastifyReplyLike
+    headers(headers: Record<string, string>): FastifyReplyLike
+    send(payload?: unknown): unknown
+}
+
+/**
+ * Adapts a receiver to a Fastify route handler. Signatures can be verified when a `rawBody` is available, e.g. with
+ * the `fastify-raw-body` plugin, or when a content type parser keeps bodies as buffers.
+ */
+export const createFastifyHandler =
+    (receiver: WebhookReceiver) =>
+    async (request: FastifyRequestLike, reply: FastifyReplyLike): Promise<void> => {
+        const raw = isRaw(request.body)
+        const response = await receiver.handle({
+            method: request.method,
+            url: request.url,
+            headers: request.headers,
+            rawBody: request.rawBody ?? (raw ? (request.body as string | Uint8Array) : undefined),
+            body: raw ? undefined : request.body,
+        })
+        const { headers, payload } = serialize(response)
+        await reply.code(response.status).headers(headers).send(payload)
+    }
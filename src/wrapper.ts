@@ -1,4 +1,5 @@
 import axios, {
+    AxiosAdapter,
     AxiosError,
     AxiosInstance,
     AxiosInterceptorManager,
@@ -7,6 +8,15 @@ import axios, {
     InternalAxiosRequestConfig,
 } from 'axios'
 import { isCancel as _isCancel } from 'axios'
+import type { z } from 'zod'
+import { CircuitBreakerConfig, ERR_CIRCUIT_OPEN, useCircuitBreaker } from './breaker'
+import { CacheConfig, useCache } from './cache'
+import { createDedupeLayer } from './dedupe'
+import { createFixturesLayer, FixturesConfig } from './fixtures'
+import { createQueueLayer, QueueConfig, QueueOptions } from './queue'
+import { createRetryLayer, RetryConfig } from './retry'
+import { TelemetryConfig, TraceContext, useTelemetry } from './telemetry'
+import { ERR_REQUEST_VALIDATION, ERR_VALIDATION, getIssues } from './validation'
 
 export enum PROBLEM_CODE {
     CLIENT_ERROR = 'CLIENT_ERROR',
@@ -17,6 +27,8 @@ export enum PROBLEM_CODE {
     CANCEL_ERROR = 'CANCEL_ERROR',
     TIMEOUT_ERROR = 'TIMEOUT_ERROR',
     VALIDATION_ERROR = 'VALIDATION_ERROR',
+    REQUEST_VALIDATION_ERROR = 'REQUEST_VALIDATION_ERROR',
+    CIRCUIT_OPEN = 'CIRCUIT_OPEN',
 }
 
 export interface ApiErrorResponse<T> {
@@ -28,6 +40,9 @@ export interface ApiErrorResponse<T> {
     headers?: any
     config?: InternalAxiosRequestConfig
     duration?: number
+    queueTime?: number
+    attempts?: number
+    issues?: z.core.$ZodIssue[]
 }
 
 export interface ApiOkResponse<T> extends AxiosResponse<T> {
@@ -40,14 +55,71 @@ export interface ApiOkResponse<T> extends AxiosResponse<T> {
     headers: AxiosResponse<any>['headers']
     config: InternalAxiosRequestConfig
     duration?: number
+    queueTime?: number
+    attempts?: number
 }
 
 export interface ApiConfig {
     url: string
     timeout?: number
     headers?: Record<string, any>
+    retry?: RetryConfig | boolean
+    /** Caches GET and HEAD responses. */
+    cache?: CacheConfig | boolean
+    /** Shares one request between identical GET and HEAD requests in flight. */
+    dedupe?: boolean
+    /** Limits the number of concurrent requests. */
+    queue?: QueueConfig
+    /** Fails requests fast while their host or operation keeps failing. */
+    circuitBreaker?: CircuitBreakerConfig | boolean
+    /** Records responses to fixtures, or replays them instead of sending requests. */
+    fixtures?: FixturesConfig
+    /** Reports requests as events, spans and metrics, and propagates W3C trace context. */
+    telemetry?: TelemetryConfig
 }
 
+/**
+ * Request config as seen by transport layers. `operationId` is set by methods generated from a spec.
+ */
+export interface ApiRequestConfig extends InternalAxiosRequestConfig, QueueOptions {
+    operationId?: string
+    /** Path template of the operation, set along with `operationId`. */
+    pathTemplate?: string
+    /** Whether the operation declares security requirements, set along with `operationId`. */
+    secured?: boolean
+    startTime?: number
+    /** Milliseconds spent waiting in the request queue. */
+    queueTime?: number
+    attempts?: number
+    trace?: TraceContext
+}
+
+export type TransportHandler = (config: ApiRequestConfig) => Promise<AxiosResponse>
+
+/**
+ * A transport layer wraps the axios adapter. It can inspect and change the request, call `next` any number of
+ * times or settle the request without calling `next` at all.
+ */
+export type TransportLayer = (config: ApiRequestConfig, next: TransportHandler) => Promise<AxiosResponse>
+
+/**
+ * Transport layers are applied in this order, the first one being the outermost.
+ */
+const TRANSPORT_STAGES = [
+    'telemetry',
+    'dedupe',
+    'cache',
+    'breaker',
+    'queue',
+    'retry',
+    'attempt',
+    'auth',
+    'fixtures',
+    'mock',
+] as const
+
+export type TransportStage = (typeof TRANSPORT_STAGES)[number]
+
 export type ApiResponse<ResponseBody = any, ErrorBody = any> = ApiErrorResponse<ErrorBody> | ApiOkResponse<ResponseBody>
 
 export type Methods = 'get' | 'post' | 'put' | 'delete' | 'patch' | 'options' | 'head'
@@ -56,12 +128,10 @@ type ApiRequestFunction<M extends Methods> = <T = unknown, E = any>(
     ...params: Parameters<AxiosInstance[M]>
 ) => Promise<ApiResponse<T, E>>
 
-type ApiRequestInterceptorUse<T> = (
-    callback?: ((value: T) => T | Promise<T>) | null,
-) => number
+type ApiRequestInterceptorUse<T> = (callback?: ((value: T) => T | Promise<T>) | null) => number
 
 type ApiResponseInterceptorUse = <T>(
-    callback: (res: ApiResponse<T>) => ApiResponse<T> | Promise<ApiResponse<T>>
+    callback: (res: ApiResponse<T>) => ApiResponse<T> | Promise<ApiResponse<T>>,
 ) => number
 
 interface ApiInterceptorManager {
@@ -87,13 +157,82 @@ export interface ApiInstance extends Omit<ApiInstanceBeforeInterceptor, 'interce
     }
 }
 
+const transports = new WeakMap<object, { stage: TransportStage; layer: TransportLayer }[]>()
+const wrappedAdapters = new WeakMap<AxiosAdapter, AxiosAdapter>()
+
+/**
+ * Adds a transport layer to an instance created with `createApi`.
+ */
+export const useTransport = (api: ApiInstance, stage: TransportStage, layer: TransportLayer) => {
+    const layers = transports.get(api) ?? []
+    layers.push({ stage, layer })
+    layers.sort((a, b) => TRANSPORT_STAGES.indexOf(a.stage) - TRANSPORT_STAGES.indexOf(b.stage))
+    transports.set(api, layers)
+}
+
+/**
+ * Settles a response produced by a transport layer without calling `next`, rejecting it like the axios adapters
+ * do when `validateStatus` fails.
+ */
+export const settleResponse = (response: AxiosResponse): AxiosResponse => {
+    const { status, config } = response
+    if (!config.validateStatus || config.validateStatus(status)) return response
+    throw new AxiosError(
+        `Request failed with status code ${status}`,
+        status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        config,
+        undefined,
+        response,
+    )
+}
+
+const applyTransports = (api: object, config: ApiRequestConfig): ApiRequestConfig => {
+    config.startTime = Date.now()
+    const layers = transports.get(api)
+    if (!layers?.length) return config
+
+    const current = axios.getAdapter(config.adapter ?? axios.defaults.adapter)
+    const base = wrappedAdapters.get(current) ?? current
+    const handler = layers.reduceRight<TransportHandler>(
+        (next, { layer }) =>
+            (c) =>
+                layer(c, next),
+        (c) => base(c),
+    )
+    const adapter: AxiosAdapter = (c) => handler(c as ApiRequestConfig)
+    wrappedAdapters.set(adapter, base)
+    config.adapter = adapter
+    return config
+}
+
 export const createApi = (config: ApiConfig): ApiInstance => {
     const api = axios.create({
         baseURL: config.url,
         timeout: config.timeout,
         headers: config.headers,
     }) as ApiInstanceBeforeInterceptor
+    // Also keeps axios from skipping the response interceptors for requests cancelled before dispatch
+    api.interceptors.request.use((requestConfig) => applyTransports(api, requestConfig))
     api.interceptors.response.use(interceptor, responseError)
+    if (config.retry) {
+        useTransport(
+            api as unknown as ApiInstance,
+            'retry',
+            createRetryLayer(config.retry === true ? {} : config.retry),
+        )
+    }
+    if (config.cache) {
+        useCache(api as unknown as ApiInstance, config.cache === true ? {} : config.cache)
+    }
+    if (config.dedupe) useTransport(api as unknown as ApiInstance, 'dedupe', createDedupeLayer())
+    if (config.queue) useTransport(api as unknown as ApiInstance, 'queue', createQueueLayer(config.queue))
+    if (config.circuitBreaker) {
+        useCircuitBreaker(api as unknown as ApiInstance, config.circuitBreaker === true ? {} : config.circuitBreaker)
+    }
+    if (config.fixtures) {
+        useTransport(api as unknown as ApiInstance, 'fixtures', createFixturesLayer(config.fixtures))
+    }
+    if (config.telemetry) useTelemetry(api as unknown as ApiInstance, config.telemetry)
     return api as unknown as ApiInstance
 }
 
@@ -110,18 +249,31 @@ function isCancel(error: AxiosError): boolean {
     return _isCancel(error)
 }
 
+const CONNECTION_ERROR_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'EAI_AGAIN', 'EHOSTUNREACH', 'EPIPE']
+
 export const getProblemFromError = <T, D>(error: AxiosError<T, D>) => {
-    if (error.message === 'Network Error') return PROBLEM_CODE.NETWORK_ERROR
     if (isCancel(error)) return PROBLEM_CODE.CANCEL_ERROR
-    if (!error.code) return getProblemFromStatus(error.response?.status)
-    if (error.code === 'ECONNABORTED') return PROBLEM_CODE.TIMEOUT_ERROR
+    if (error.code === ERR_CIRCUIT_OPEN) return PROBLEM_CODE.CIRCUIT_OPEN
+    if (error.code === ERR_VALIDATION) return PROBLEM_CODE.VALIDATION_ERROR
+    if (error.code === ERR_REQUEST_VALIDATION) return PROBLEM_CODE.REQUEST_VALIDATION_ERROR
+    if (error.response) return getProblemFromStatus(error.response.status) ?? PROBLEM_CODE.UNKNOWN_ERROR
+    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') return PROBLEM_CODE.TIMEOUT_ERROR
+    if (error.code && CONNECTION_ERROR_CODES.includes(error.code)) return PROBLEM_CODE.CONNECTION_ERROR
+    if (error.code === 'ERR_NETWORK' || error.message === 'Network Error') return PROBLEM_CODE.NETWORK_ERROR
     return PROBLEM_CODE.UNKNOWN_ERROR
 }
 
+const getTimings = (config?: ApiRequestConfig) => ({
+    duration: config?.startTime !== undefined ? Date.now() - config.startTime - (config.queueTime ?? 0) : undefined,
+    queueTime: config?.queueTime,
+    attempts: config?.attempts ?? 1,
+})
+
 const interceptor = <T>(response: AxiosResponse<T>): ApiOkResponse<T> => {
     // Any status code that lie within the range of 2xx cause this function to trigger
     return {
         ...response,
+        ...getTimings(response.config),
         data: response.data ?? ({} as T),
         ok: true,
         problem: null,
@@ -139,12 +291,14 @@ const responseError = <T>(e: T): Partial<ApiErrorResponse<T>> => {
     if (isAxiosError(e)) {
         return {
             ...e.response,
-            data: {} as T,
+            ...getTimings(e.config),
+            data: e.response?.data as T,
             ok: false,
             status: e.response?.status,
             config: e.config as any,
             originalError: e as any,
-            problem: getProblemFromStatus(e.response?.status) ?? undefined,
+            problem: getProblemFromError(e),
+            issues: getIssues(e),
         }
     }
     throw e